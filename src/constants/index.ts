@@ -5,6 +5,49 @@ export const CertificateType = {
   STAKE_DEREGISTRATION: 1,
   STAKE_DELEGATION: 2,
   STAKE_POOL_REGISTRATION: 3,
+  STAKE_POOL_RETIREMENT: 4,
+  VOTE_DELEGATION: 9,
+  STAKE_VOTE_DELEGATION: 10,
+  STAKE_REGISTRATION_DELEGATION: 11,
+  VOTE_REGISTRATION_DELEGATION: 12,
+  STAKE_VOTE_REGISTRATION_DELEGATION: 13,
+  DREP_REGISTRATION: 16,
+  DREP_DEREGISTRATION: 17,
+  DREP_UPDATE: 18,
+} as const;
+
+export const DRepType = {
+  KEY_HASH: 0,
+  SCRIPT_HASH: 1,
+  ALWAYS_ABSTAIN: 2,
+  ALWAYS_NO_CONFIDENCE: 3,
+} as const;
+
+export const VoterType = {
+  CC_HOT_KEY_HASH: 0,
+  CC_HOT_SCRIPT_HASH: 1,
+  DREP_KEY_HASH: 2,
+  DREP_SCRIPT_HASH: 3,
+  STAKE_POOL: 4,
+} as const;
+
+export const VoteKind = {
+  NO: 0,
+  YES: 1,
+  ABSTAIN: 2,
+} as const;
+
+// tags of the governance actions in the ledger
+export const GovernanceActionType = {
+  PARAMETER_CHANGE: 0,
+  TREASURY_WITHDRAWALS: 2,
+  INFO: 6,
+} as const;
+
+export const PoolRelayType = {
+  SINGLE_HOST_IP: 0,
+  SINGLE_HOST_NAME: 1,
+  MULTIPLE_HOST_NAME: 2,
 } as const;
 
 export const ERROR = {
@@ -20,24 +63,114 @@ export const ERROR = {
     code: 'UNSUPPORTED_CERTIFICATE_TYPE',
     message: 'Unsupported certificate type',
   },
+  UNSUPPORTED_GOVERNANCE_ACTION: {
+    code: 'UNSUPPORTED_GOVERNANCE_ACTION',
+    message: 'Unsupported governance action type',
+  },
+  UNSUPPORTED_SET_MAX_OUTPUT: {
+    code: 'UNSUPPORTED_SET_MAX_OUTPUT',
+    message: 'Random-improve supports setMax only on token outputs',
+  },
   UTXO_NOT_FRAGMENTED_ENOUGH: {
     code: 'UTXO_NOT_FRAGMENTED_ENOUGH',
     message: 'UTxO Not fragmented enough.',
   },
+  NOTHING_TO_CONSOLIDATE: {
+    code: 'NOTHING_TO_CONSOLIDATE',
+    message: 'UTxO set cannot be consolidated any further',
+  },
+  UTXO_NO_EXACT_MATCH: {
+    code: 'UTXO_NO_EXACT_MATCH',
+    message: 'No UTxO combination matches the outputs without a change',
+  },
+  INVALID_PROTOCOL_PARAMETERS: {
+    code: 'INVALID_PROTOCOL_PARAMETERS',
+    message: 'Invalid or missing protocol parameter',
+  },
+  INVALID_POOL_PARAMETERS: {
+    code: 'INVALID_POOL_PARAMETERS',
+    message: 'Invalid stake pool parameters',
+  },
+  INVALID_CERTIFICATE_DEPOSIT: {
+    code: 'INVALID_CERTIFICATE_DEPOSIT',
+    message: 'Invalid certificate deposit',
+  },
+  DEPOSIT_REFUND_MISMATCH: {
+    code: 'DEPOSIT_REFUND_MISMATCH',
+    message:
+      'Refund does not match the deposit paid for the credential in the same transaction',
+  },
+  INVALID_ADDRESS: {
+    code: 'INVALID_ADDRESS',
+    message: 'Address is neither a valid bech32 nor a Byron address',
+  },
+  ADDRESS_NETWORK_MISMATCH: {
+    code: 'ADDRESS_NETWORK_MISMATCH',
+    message: 'Address does not belong to the selected network',
+  },
+  INVALID_REWARD_ADDRESS: {
+    code: 'INVALID_REWARD_ADDRESS',
+    message: 'Withdrawal address is not a valid reward address',
+  },
+  DUPLICATE_WITHDRAWAL: {
+    code: 'DUPLICATE_WITHDRAWAL',
+    message: 'Multiple withdrawals from the same reward address',
+  },
+  SCRIPT_WITNESS_MISSING: {
+    code: 'SCRIPT_WITNESS_MISSING',
+    message: 'Native script matching the script credential is missing',
+  },
+  UNSUPPORTED_PLUTUS_SCRIPT: {
+    code: 'UNSUPPORTED_PLUTUS_SCRIPT',
+    message:
+      'Script reward address without a native script, Plutus scripts are not supported',
+  },
+  UNSUPPORTED_ERA: {
+    code: 'UNSUPPORTED_ERA',
+    message: 'Not supported in the era of the protocol parameters',
+  },
+  TX_TOO_BIG: {
+    code: 'TX_TOO_BIG',
+    message: 'Transaction exceeds the maximum transaction size',
+  },
+  REF_SCRIPTS_TOO_BIG: {
+    code: 'REF_SCRIPTS_TOO_BIG',
+    message:
+      'Total size of reference scripts exceeds the limit of the transaction',
+  },
 } as const;
 
 export const CARDANO_PARAMS = {
   PROTOCOL_MAGICS: {
     mainnet: CardanoWasm.NetworkInfo.mainnet().protocol_magic(),
-    testnet: CardanoWasm.NetworkInfo.testnet().protocol_magic(),
+    // legacy testnet, retired (no longer available in CSL)
+    testnet: 1097911063,
+    preprod: CardanoWasm.NetworkInfo.testnet_preprod().protocol_magic(),
+    preview: CardanoWasm.NetworkInfo.testnet_preview().protocol_magic(),
   },
   NETWORK_IDS: {
     mainnet: CardanoWasm.NetworkInfo.mainnet().network_id(),
-    testnet: CardanoWasm.NetworkInfo.testnet().network_id(),
+    // all test networks share the network id
+    testnet: CardanoWasm.NetworkInfo.testnet_preprod().network_id(),
+    preprod: CardanoWasm.NetworkInfo.testnet_preprod().network_id(),
+    preview: CardanoWasm.NetworkInfo.testnet_preview().network_id(),
   },
+  // default protocol parameters (mainnet), see Options.protocolParameters
+  MIN_FEE_A: '44',
+  MIN_FEE_B: '155381',
+  POOL_DEPOSIT: '500000000',
+  KEY_DEPOSIT: '2000000',
   COINS_PER_UTXO_BYTE: '4310',
+  // min ADA rule of Alonzo era
+  COINS_PER_UTXO_WORD: '34482',
   MAX_TX_SIZE: 16384,
   MAX_VALUE_SIZE: 5000,
+  MIN_FEE_REF_SCRIPT_COST_PER_BYTE: '15',
+  DREP_DEPOSIT: '500000000',
+  GOV_ACTION_DEPOSIT: '100000000000',
+  // encoding only (set tags, Conway certificates) and Conway features are opt-in,
+  // fee rules (reference script fee and size limit) don't depend on the era
+  ERA: 'babbage',
 } as const;
 
 // https://github.com/vacuumlabs/adalite/blob/d8ba3bb1ff439ae8e02abd99163435a989d97961/app/frontend/wallet/shelley/transaction/constants.ts
@@ -45,6 +178,15 @@ export const CARDANO_PARAMS = {
 // max token size about 70 bytes, max output size is 4000 => 4000 / 70 ~ 50
 export const MAX_TOKENS_PER_OUTPUT = 50;
 
-export const DATA_COST_PER_UTXO_BYTE = CardanoWasm.DataCost.new_coins_per_byte(
-  CardanoWasm.BigNum.from_str(CARDANO_PARAMS.COINS_PER_UTXO_BYTE),
-);
+// Once the tx grows over this share of the max tx size, selection picks the largest utxos
+// instead of random ones in order to cover the outputs with as few inputs as possible
+export const TX_SIZE_SOFT_LIMIT_RATIO = 0.8;
+
+// Conway reference script fee, price per byte grows by 1.2x with every full tier of 25 KiB
+export const REF_SCRIPT_FEE_TIER_SIZE = 25600;
+export const REF_SCRIPT_FEE_TIER_MULTIPLIER = {
+  numerator: 6,
+  denominator: 5,
+} as const;
+// Conway limit of the total size of reference scripts of the inputs of a tx (200 KiB)
+export const MAX_REF_SCRIPT_SIZE_PER_TX = 204800;
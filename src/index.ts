@@ -1,5 +1,8 @@
-import { ERROR } from './constants';
+import { CertificateType, ERROR } from './constants';
+import { branchAndBound } from './methods/branchAndBound';
 import { largestFirst } from './methods/largestFirst';
+import { optimize } from './methods/optimize';
+import { privacy } from './methods/privacy';
 import { randomImprove } from './methods/randomImprove';
 import { CoinSelectionError } from './utils/errors';
 import { getLogger } from './utils/logger';
@@ -10,7 +13,81 @@ import {
   Options,
   PrecomposedTransaction,
 } from './types/types';
-import { bigNumFromStr } from './utils/common';
+import { bigNumFromStr, validateAddressNetwork } from './utils/common';
+
+const selectUtxos = (
+  params: CoinSelectionParams,
+  options?: Options,
+): CoinSelectionResult => {
+  const logger = getLogger(!!options?.debug);
+  let res: CoinSelectionResult;
+  if (options?.optimize) {
+    logger.debug('Running multiple algs, picking the best result');
+    res = optimize(params, options);
+  } else if (
+    // random-improve supports setMax only on token outputs
+    params.outputs.find(o => o.setMax && o.assets.length === 0) ||
+    options?.forceLargestFirstSelection ||
+    // custom strategy reuses fee, change and setMax handling of largest-first alg
+    options?.selectionStrategy
+  ) {
+    logger.debug('Running largest-first alg');
+    res = largestFirst(params, options);
+  } else {
+    let exactMatch: CoinSelectionResult | undefined;
+    if (
+      // without outputs the exact match would burn the selected utxos as fee
+      params.outputs.length > 0 &&
+      params.outputs.every(o => o.amount && o.assets.length === 0) &&
+      params.certificates.length === 0 &&
+      params.withdrawals.length === 0 &&
+      !params.votes?.length &&
+      !params.proposals?.length &&
+      options?.branchAndBoundMaxTries !== 0
+    ) {
+      // try to find a selection which doesn't need a change output
+      logger.debug('Running branch-and-bound alg');
+      try {
+        exactMatch = branchAndBound(params, options);
+      } catch (error) {
+        if (
+          error instanceof CoinSelectionError &&
+          error.code === 'UTXO_NO_EXACT_MATCH'
+        ) {
+          logger.debug(
+            `branch-and-bound failed with ${error.code}. Retrying with random-improve alg.`,
+          );
+        } else {
+          throw error;
+        }
+      }
+    }
+
+    if (exactMatch) {
+      res = exactMatch;
+    } else {
+      logger.debug('Running random-improve alg');
+      try {
+        res = randomImprove(params, options);
+      } catch (error) {
+        if (
+          error instanceof CoinSelectionError &&
+          (error.code === 'UTXO_NOT_FRAGMENTED_ENOUGH' ||
+            error.code === 'TX_TOO_BIG' ||
+            error.code === 'REF_SCRIPTS_TOO_BIG')
+        ) {
+          logger.debug(
+            `random-improve failed with ${error.code}. Retrying with largest-first alg.`,
+          );
+          res = largestFirst(params, options);
+        } else {
+          throw error;
+        }
+      }
+    }
+  }
+  return res;
+};
 
 export const coinSelection = (
   params: CoinSelectionParams,
@@ -27,35 +104,28 @@ export const coinSelection = (
     throw new CoinSelectionError(ERROR.UTXO_BALANCE_INSUFFICIENT);
   }
 
-  const t1 = new Date().getTime();
-  let res: CoinSelectionResult;
-  if (
-    params.outputs.find(o => o.setMax) ||
-    params.certificates.length > 0 ||
-    params.withdrawals.length > 0 ||
-    options?.forceLargestFirstSelection
-  ) {
-    logger.debug('Running largest-first alg');
-    res = largestFirst(params, options);
-  } else {
-    logger.debug('Running random-improve alg');
-    try {
-      res = randomImprove(params, options);
-    } catch (error) {
-      if (
-        error instanceof CoinSelectionError &&
-        error.code === 'UTXO_NOT_FRAGMENTED_ENOUGH'
-      ) {
-        logger.debug(
-          `random-improve failed with ${error.code}. Retrying with largest-first alg.`,
-        );
-        res = largestFirst(params, options);
-      } else {
-        throw error;
-      }
-    }
+  const { network } = options ?? {};
+  if (network) {
+    [
+      params.changeAddress,
+      ...params.utxos.map(utxo => utxo.address),
+      ...params.outputs.map(output => output.address),
+      ...params.withdrawals.map(withdrawal => withdrawal.stakeAddress),
+      ...params.certificates.map(cert =>
+        cert.type === CertificateType.STAKE_POOL_REGISTRATION
+          ? cert.pool_parameters.rewardAccount
+          : undefined,
+      ),
+      ...(params.proposals ?? []).map(proposal => proposal.returnAddress),
+    ].forEach(address => {
+      // outputs of a draft tx may not have the address set yet
+      if (address) validateAddressNetwork(address, network);
+    });
   }
 
+  const t1 = new Date().getTime();
+  const res = privacy(params, options, selectUtxos);
+
   const t2 = new Date().getTime();
   logger.debug(`Duration: ${(t2 - t1) / 1000} seconds`);
 
@@ -76,8 +146,10 @@ export const coinSelection = (
     const selection = {
       type: 'nonfinal',
       fee: res.fee,
+      feeBreakdown: res.feeBreakdown,
       totalSpent: res.totalSpent,
       deposit: res.deposit,
+      depositBreakdown: res.depositBreakdown,
       withdrawal: res.withdrawal,
       max: res.max,
     } as const;
@@ -97,3 +169,10 @@ export const coinSelection = (
 export * as trezorUtils from './utils/trezor';
 export * as types from './types/types';
 export { CoinSelectionError } from './utils/errors';
+export { consolidation } from './methods/consolidation';
+export { largestFirstStrategy } from './methods/largestFirst';
+export {
+  parseCardanoCliProtocolParameters,
+  parseBlockfrostProtocolParameters,
+  parseKoiosProtocolParameters,
+} from './utils/protocolParameters';
@@ -0,0 +1,246 @@
+import { ERROR, MAX_REF_SCRIPT_SIZE_PER_TX } from '../constants';
+import * as CardanoWasm from '@emurgo/cardano-serialization-lib-browser';
+import {
+  CoinSelectionParams,
+  CoinSelectionResult,
+  Options,
+  Output,
+  Utxo,
+} from '../types/types';
+import {
+  bigNumFromStr,
+  setMinUtxoValueForOutputs,
+  getTxBuilder,
+  getAssetAmount,
+  getOutputCost,
+  buildTxInput,
+  buildTxOutput,
+  getUtxoQuantity,
+  getOutputQuantity,
+  orderInputs,
+  getProtocolParameters,
+  serializeTxBody,
+  calculateReferenceScriptFee,
+  getMinFee,
+  getSetTagsSize,
+  getReferenceScriptSize,
+  withMaxTxSize,
+  getFeeBreakdown,
+} from '../utils/common';
+import { CoinSelectionError } from '../utils/errors';
+import { getLogger } from '../utils/logger';
+// Inspired by the branch-and-bound algorithm used in Bitcoin Core (Murch, "An Evaluation of Coin Selection Strategies")
+
+export const DEFAULT_BRANCH_AND_BOUND_MAX_TRIES = 10000;
+
+interface Candidate {
+  utxo: Utxo;
+  // utxo lovelace amount minus the fee for including the utxo as an input
+  effectiveValue: CardanoWasm.BigNum;
+}
+
+const search = (
+  candidates: Candidate[],
+  target: CardanoWasm.BigNum,
+  upperBound: CardanoWasm.BigNum,
+  maxTries: number,
+): Candidate[] | null => {
+  // available[i] is the sum of effective values of candidates[i..n]
+  const available: CardanoWasm.BigNum[] = [bigNumFromStr('0')];
+  for (let i = candidates.length - 1; i >= 0; i--) {
+    available.unshift(available[0].checked_add(candidates[i].effectiveValue));
+  }
+
+  let best: number[] | null = null;
+  let bestValue: CardanoWasm.BigNum | null = null;
+
+  const selected: number[] = [];
+  let value = bigNumFromStr('0');
+  let index = 0;
+  for (let tries = 0; tries < maxTries; tries++) {
+    let backtrack = false;
+    if (
+      value.checked_add(available[index]).compare(target) < 0 ||
+      value.compare(upperBound) > 0
+    ) {
+      // target cannot be reached with remaining candidates or we already overshot the window
+      backtrack = true;
+    } else if (value.compare(target) >= 0) {
+      // selection lands within the window, keep it if it burns less than the best one so far
+      if (!bestValue || value.compare(bestValue) < 0) {
+        best = [...selected];
+        bestValue = value;
+      }
+      if (value.compare(target) === 0) break; // exact match, we can't do better
+      backtrack = true;
+    }
+
+    if (backtrack) {
+      const last = selected.pop();
+      if (last === undefined) break; // whole tree explored
+      value = value.clamped_sub(candidates[last].effectiveValue);
+      // omit the last selected candidate and skip over the ones with the same value,
+      // these branches would lead to equivalent selections
+      index = last + 1;
+      while (
+        index < candidates.length &&
+        candidates[index].effectiveValue.compare(
+          candidates[last].effectiveValue,
+        ) === 0
+      ) {
+        index++;
+      }
+    } else {
+      // include the next candidate
+      selected.push(index);
+      value = value.checked_add(candidates[index].effectiveValue);
+      index++;
+    }
+  }
+
+  return best ? best.map(i => candidates[i]) : null;
+};
+
+export const branchAndBound = (
+  params: Pick<
+    CoinSelectionParams,
+    'utxos' | 'outputs' | 'changeAddress' | 'ttl'
+  >,
+  options?: Options,
+): CoinSelectionResult => {
+  const { utxos, outputs, changeAddress, ttl } = params;
+  const logger = getLogger(!!options?.debug);
+  const maxTries =
+    options?.branchAndBoundMaxTries ?? DEFAULT_BRANCH_AND_BOUND_MAX_TRIES;
+
+  const protocolParameters = getProtocolParameters(options);
+  const txBuilder = getTxBuilder(protocolParameters);
+  if (ttl) {
+    txBuilder.set_ttl(ttl);
+  }
+
+  const preparedOutputs = setMinUtxoValueForOutputs(
+    txBuilder,
+    outputs,
+    changeAddress,
+    protocolParameters,
+  );
+  preparedOutputs.forEach(output => {
+    txBuilder.add_output(
+      buildTxOutput(output, changeAddress, protocolParameters),
+    );
+  });
+
+  // Selected inputs need to cover outputs and the fee for the tx without any inputs
+  const target = getOutputQuantity(preparedOutputs, 'lovelace').checked_add(
+    getMinFee(txBuilder, [], [], [], protocolParameters),
+  );
+
+  // Anything above the target will be burned as a fee. Accept it only if it is cheaper
+  // than adding a change output (its fee + min ada required for the output).
+  const changeOutputCost = getOutputCost(
+    txBuilder,
+    { address: changeAddress, amount: '0', assets: [] },
+    changeAddress,
+    protocolParameters,
+  );
+  const upperBound = target
+    .checked_add(changeOutputCost.outputFee)
+    .checked_add(changeOutputCost.minOutputAmount);
+
+  // utxos with tokens would require a change output
+  const candidates: Candidate[] = [];
+  utxos
+    .filter(utxo => utxo.amount.every(a => a.unit === 'lovelace'))
+    .forEach(utxo => {
+      const { input, address, amount } = buildTxInput(utxo);
+      // reference script fee of a single utxo is a lower bound, the final fee is checked below
+      const inputFee = withMaxTxSize(() =>
+        txBuilder.fee_for_input(address, input, amount),
+      ).checked_add(calculateReferenceScriptFee([utxo], protocolParameters));
+      const lovelace = bigNumFromStr(getAssetAmount(utxo));
+      // skip utxos that would cost more to spend than their value
+      if (lovelace.compare(inputFee) > 0) {
+        candidates.push({
+          utxo,
+          effectiveValue: lovelace.clamped_sub(inputFee),
+        });
+      }
+    });
+  // sorting by effective value lets us prune the tree early
+  candidates.sort((c1, c2) => c2.effectiveValue.compare(c1.effectiveValue));
+
+  const selectedCandidates = search(candidates, target, upperBound, maxTries);
+  if (!selectedCandidates) {
+    logger.debug(
+      `Branch-and-bound alg did not find an exact match within ${maxTries} tries`,
+    );
+    throw new CoinSelectionError(ERROR.UTXO_NO_EXACT_MATCH);
+  }
+
+  const utxoSelected = selectedCandidates.map(c => c.utxo);
+  utxoSelected.forEach(utxo => {
+    const { input, address, amount } = buildTxInput(utxo);
+    txBuilder.add_regular_input(address, input, amount);
+  });
+
+  const totalInput = getUtxoQuantity(utxoSelected, 'lovelace');
+  const totalOutput = getOutputQuantity(preparedOutputs, 'lovelace');
+  const fee = totalInput.clamped_sub(totalOutput);
+  const noExactMatchOfMaxTxSize = () => {
+    // random-improve or largest-first may still find a selection with fewer inputs
+    logger.debug('Branch-and-bound selection exceeds the max tx size');
+    return new CoinSelectionError(ERROR.UTXO_NO_EXACT_MATCH);
+  };
+  let minFee: CardanoWasm.BigNum;
+  try {
+    minFee = getMinFee(txBuilder, utxoSelected, [], [], protocolParameters);
+  } catch (error) {
+    if (error instanceof CoinSelectionError && error.code === 'TX_TOO_BIG') {
+      throw noExactMatchOfMaxTxSize();
+    }
+    throw error;
+  }
+  if (fee.compare(minFee) < 0) {
+    // sum of fees for individual inputs may slightly differ from the fee for the whole tx
+    logger.debug('Branch-and-bound selection does not cover the final fee');
+    throw new CoinSelectionError(ERROR.UTXO_NO_EXACT_MATCH);
+  }
+
+  txBuilder.set_fee(fee);
+  const txSize =
+    txBuilder.full_size() -
+    getSetTagsSize(utxoSelected, [], [], protocolParameters);
+  if (txSize > protocolParameters.maxTxSize) {
+    throw noExactMatchOfMaxTxSize();
+  }
+  if (getReferenceScriptSize(utxoSelected) > MAX_REF_SCRIPT_SIZE_PER_TX) {
+    logger.debug(
+      'Branch-and-bound selection exceeds the max size of reference scripts',
+    );
+    throw new CoinSelectionError(ERROR.UTXO_NO_EXACT_MATCH);
+  }
+  const txBody = txBuilder.build();
+  const { body: txBodyHex, hash: txHash } = serializeTxBody(
+    txBody,
+    protocolParameters,
+  );
+
+  const finalOutputs: Output[] = JSON.parse(JSON.stringify(preparedOutputs));
+  const totalSpent = totalOutput.checked_add(fee);
+
+  // reorder inputs to match order within tx
+  const orderedInputs = orderInputs(utxoSelected, txBody);
+  return {
+    tx: { body: txBodyHex, hash: txHash, size: txSize },
+    inputs: orderedInputs,
+    outputs: finalOutputs,
+    fee: fee.to_str(),
+    feeBreakdown: getFeeBreakdown(fee, utxoSelected, protocolParameters),
+    totalSpent: totalSpent.to_str(),
+    deposit: '0',
+    depositBreakdown: { certificates: '0', proposals: '0' },
+    withdrawal: '0',
+    ttl,
+  };
+};
@@ -0,0 +1,241 @@
+import { ERROR, MAX_REF_SCRIPT_SIZE_PER_TX } from '../constants';
+import * as CardanoWasm from '@emurgo/cardano-serialization-lib-browser';
+import {
+  ConsolidationParams,
+  ConsolidationResult,
+  ChangeOutput,
+  Options,
+  OutputCost,
+  ProtocolParameters,
+  Utxo,
+} from '../types/types';
+import {
+  bigNumFromStr,
+  prepareChangeOutput,
+  getTxBuilder,
+  multiAssetToArray,
+  buildTxInput,
+  buildTxOutput,
+  splitChangeOutput,
+  getUtxoQuantity,
+  getOutputQuantity,
+  sortUtxos,
+  orderInputs,
+  getProtocolParameters,
+  serializeTxBody,
+  validateAddressNetwork,
+  getMinFee,
+  getSetTagsSize,
+  getFeeBreakdown,
+  getTxSize,
+  getReferenceScriptSize,
+  assertTxSize,
+} from '../utils/common';
+import { CoinSelectionError } from '../utils/errors';
+import { getLogger } from '../utils/logger';
+
+const prepareConsolidatedOutputs = (
+  txBuilder: CardanoWasm.TransactionBuilder,
+  usedUtxos: Utxo[],
+  changeAddress: string,
+  protocolParameters: ProtocolParameters,
+  maxTokensPerOutput: number | undefined,
+): OutputCost[] => {
+  const singleChangeOutput = prepareChangeOutput(
+    txBuilder,
+    usedUtxos,
+    [],
+    changeAddress,
+    getUtxoQuantity(usedUtxos, 'lovelace'),
+    bigNumFromStr('0'),
+    getMinFee(txBuilder, usedUtxos, [], [], protocolParameters),
+    protocolParameters,
+  );
+  return singleChangeOutput
+    ? splitChangeOutput(
+        txBuilder,
+        singleChangeOutput,
+        changeAddress,
+        protocolParameters,
+        maxTokensPerOutput,
+      )
+    : [];
+};
+
+const buildConsolidationTx = (
+  usedUtxos: Utxo[],
+  changeAddress: string,
+  ttl: number | undefined,
+  protocolParameters: ProtocolParameters,
+  options?: Options,
+) => {
+  const txBuilder = getTxBuilder(protocolParameters);
+  if (ttl) {
+    txBuilder.set_ttl(ttl);
+  }
+  usedUtxos.forEach(utxo => {
+    const { input, address, amount } = buildTxInput(utxo);
+    txBuilder.add_regular_input(address, input, amount);
+  });
+
+  const changeOutputs = prepareConsolidatedOutputs(
+    txBuilder,
+    usedUtxos,
+    changeAddress,
+    protocolParameters,
+    options?._maxTokensPerOutput,
+  );
+  const outputs: ChangeOutput[] = changeOutputs.map(change => ({
+    isChange: true as const,
+    amount: change.output.amount().coin().to_str(),
+    address: changeAddress,
+    assets: multiAssetToArray(change.output.amount().multiasset()),
+  }));
+  outputs.forEach(output => {
+    txBuilder.add_output(
+      buildTxOutput(output, changeAddress, protocolParameters),
+    );
+  });
+
+  const totalInput = getUtxoQuantity(usedUtxos, 'lovelace');
+  const totalOutput = getOutputQuantity(outputs, 'lovelace');
+  if (
+    outputs.length === 0 ||
+    totalInput.compare(
+      totalOutput.checked_add(
+        getMinFee(txBuilder, usedUtxos, [], [], protocolParameters),
+      ),
+    ) < 0
+  ) {
+    // utxos don't cover the fee and min ADA required for the outputs
+    throw new CoinSelectionError(ERROR.UTXO_BALANCE_INSUFFICIENT);
+  }
+  const fee = totalInput.clamped_sub(totalOutput);
+  txBuilder.set_fee(fee);
+  const txSize =
+    txBuilder.full_size() -
+    getSetTagsSize(usedUtxos, [], [], protocolParameters);
+  assertTxSize(txSize, protocolParameters);
+
+  return { txBuilder, outputs, fee, txSize };
+};
+
+const isTxTooBig = (error: unknown): boolean =>
+  error instanceof CoinSelectionError && error.code === 'TX_TOO_BIG';
+
+export const consolidation = (
+  params: ConsolidationParams,
+  options?: Options,
+): ConsolidationResult => {
+  const { utxos, changeAddress, ttl } = params;
+  const logger = getLogger(!!options?.debug);
+  const protocolParameters = getProtocolParameters(options);
+  if (utxos.length < 2) {
+    throw new CoinSelectionError(ERROR.NOTHING_TO_CONSOLIDATE);
+  }
+  const network = options?.network;
+  if (network) {
+    [changeAddress, ...utxos.map(utxo => utxo.address)].forEach(address =>
+      validateAddressNetwork(address, network),
+    );
+  }
+
+  // smallest utxos first, these contribute to the fragmentation the most
+  const sortedUtxos = sortUtxos(utxos).reverse();
+
+  // Add inputs while the estimated size of the tx (inputs + merged change outputs) fits the limit
+  const estimationTxBuilder = getTxBuilder(protocolParameters);
+  if (ttl) {
+    estimationTxBuilder.set_ttl(ttl);
+  }
+  const usedUtxos: Utxo[] = [];
+  for (const utxo of sortedUtxos) {
+    if (
+      getReferenceScriptSize([...usedUtxos, utxo]) > MAX_REF_SCRIPT_SIZE_PER_TX
+    ) {
+      // the utxo is left for another consolidation
+      continue;
+    }
+    const { input, address, amount } = buildTxInput(utxo);
+    estimationTxBuilder.add_regular_input(address, input, amount);
+    let txSize: number | undefined;
+    try {
+      const changeOutputs = prepareConsolidatedOutputs(
+        estimationTxBuilder,
+        [...usedUtxos, utxo],
+        changeAddress,
+        protocolParameters,
+        options?._maxTokensPerOutput,
+      );
+      txSize = getTxSize(
+        estimationTxBuilder,
+        protocolParameters,
+        changeOutputs.map(change => change.output),
+      );
+    } catch (error) {
+      // the fee of the tx can't be estimated once it is over the limit
+      if (isTxTooBig(error)) break;
+      throw error;
+    }
+    if (txSize !== undefined && txSize > protocolParameters.maxTxSize) {
+      break;
+    }
+    usedUtxos.push(utxo);
+  }
+
+  // estimation doesn't include the CBOR overhead of the outputs, drop inputs until the final tx fits
+  let tx: ReturnType<typeof buildConsolidationTx> | undefined;
+  while (!tx) {
+    try {
+      tx = buildConsolidationTx(
+        usedUtxos,
+        changeAddress,
+        ttl,
+        protocolParameters,
+        options,
+      );
+    } catch (error) {
+      if (!isTxTooBig(error)) throw error;
+      usedUtxos.pop();
+    }
+  }
+  const { txBuilder, outputs, fee, txSize } = tx;
+
+  if (outputs.length >= usedUtxos.length) {
+    logger.debug(
+      `Consolidation of ${usedUtxos.length} utxos would create ${outputs.length} outputs`,
+    );
+    throw new CoinSelectionError(ERROR.NOTHING_TO_CONSOLIDATE);
+  }
+
+  const txBody = txBuilder.build();
+  const { body: txBodyHex, hash: txHash } = serializeTxBody(
+    txBody,
+    protocolParameters,
+  );
+
+  const utxosAfter = utxos.length - usedUtxos.length + outputs.length;
+  logger.debug(
+    `Consolidating ${usedUtxos.length} utxos into ${outputs.length} outputs`,
+  );
+
+  // reorder inputs to match order within tx
+  const orderedInputs = orderInputs(usedUtxos, txBody);
+  return {
+    tx: { body: txBodyHex, hash: txHash, size: txSize },
+    inputs: orderedInputs,
+    outputs,
+    fee: fee.to_str(),
+    feeBreakdown: getFeeBreakdown(fee, usedUtxos, protocolParameters),
+    totalSpent: fee.to_str(),
+    deposit: '0',
+    depositBreakdown: { certificates: '0', proposals: '0' },
+    withdrawal: '0',
+    ttl,
+    consolidation: {
+      utxosBefore: utxos.length,
+      utxosAfter,
+      utxosRemoved: utxos.length - utxosAfter,
+    },
+  };
+};
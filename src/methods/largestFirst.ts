@@ -7,6 +7,7 @@ import {
   Options,
   Output,
   OutputCost,
+  SelectionStrategy,
   Utxo,
 } from '../types/types';
 import {
@@ -16,6 +17,9 @@ import {
   prepareCertificates,
   prepareChangeOutput,
   prepareWithdrawals,
+  prepareVotes,
+  prepareProposals,
+  calculateProposalDeposit,
   setMinUtxoValueForOutputs,
   sortUtxos,
   getTxBuilder,
@@ -29,9 +33,25 @@ import {
   splitChangeOutput,
   calculateUserOutputsFee,
   orderInputs,
+  getTxSize,
+  withMaxTxSize,
+  assertTxSize,
+  assertReferenceScriptSize,
+  getProtocolParameters,
+  serializeTxBody,
+  getSetTagsSize,
+  getMinFee,
+  getFeeBreakdown,
 } from '../utils/common';
 import { CoinSelectionError } from '../utils/errors';
 
+export const largestFirstStrategy: SelectionStrategy = {
+  // utxo with the largest amount of the first unsatisfied token, or ADA if all tokens are covered
+  // TODO: https://github.com/Emurgo/cardano-serialization-lib/pull/264
+  selectNext: ({ utxos, unsatisfiedAssets }) =>
+    sortUtxos(utxos, unsatisfiedAssets[0])[0],
+};
+
 export const largestFirst = (
   params: CoinSelectionParams,
   options?: Options,
@@ -42,43 +62,75 @@ export const largestFirst = (
     changeAddress,
     certificates,
     withdrawals,
+    votes = [],
+    proposals = [],
     accountPubKey,
     ttl,
   } = params;
-  const txBuilder = getTxBuilder(options?.feeParams?.a);
+  const strategy = options?.selectionStrategy ?? largestFirstStrategy;
+  const protocolParameters = getProtocolParameters(options);
+  const txBuilder = getTxBuilder(protocolParameters);
   if (ttl) {
     txBuilder.set_ttl(ttl);
   }
 
   const usedUtxos: Utxo[] = [];
-  let sortedUtxos = sortUtxos(utxos);
+  let remainingUtxos = sortUtxos(utxos);
   const accountKey = CardanoWasm.Bip32PublicKey.from_bytes(
     Buffer.from(accountPubKey, 'hex'),
   );
 
   // add withdrawals and certs to correctly set a fee
-  const preparedCertificates = prepareCertificates(certificates, accountKey);
-  const preparedWithdrawals = prepareWithdrawals(withdrawals);
+  const preparedCertificates = prepareCertificates(
+    certificates,
+    accountKey,
+    protocolParameters,
+  );
+  const preparedWithdrawals = prepareWithdrawals(withdrawals, accountKey);
 
-  if (preparedCertificates.len() > 0) {
-    txBuilder.set_certs(preparedCertificates);
+  if (certificates.length > 0) {
+    txBuilder.set_certs_builder(preparedCertificates);
+  }
+  if (withdrawals.length > 0) {
+    txBuilder.set_withdrawals_builder(preparedWithdrawals);
   }
-  if (preparedWithdrawals.len() > 0) {
-    txBuilder.set_withdrawals(preparedWithdrawals);
+  if (votes.length > 0) {
+    txBuilder.set_voting_builder(
+      prepareVotes(votes, accountKey, protocolParameters),
+    );
+  }
+  if (proposals.length > 0) {
+    txBuilder.set_voting_proposal_builder(
+      prepareProposals(proposals, protocolParameters),
+    );
   }
 
-  // TODO: negative value in case of deregistration (-2000000), but we still need enough utxos to cover fee which can't be (is that right?) paid from returned deposit
-  const deposit = calculateRequiredDeposit(certificates);
+  // negative in case of deregistration, the refund is available for the fee and outputs same as withdrawals
+  const certificatesDeposit = calculateRequiredDeposit(
+    certificates,
+    protocolParameters,
+  );
+  const proposalsDeposit = calculateProposalDeposit(
+    proposals,
+    protocolParameters,
+  );
+  const deposit = certificatesDeposit + proposalsDeposit;
   const totalWithdrawal = withdrawals.reduce(
     (acc, withdrawal) => acc.checked_add(bigNumFromStr(withdrawal.amount)),
     bigNumFromStr('0'),
   );
 
   // calc initial fee
-  let totalFeesAmount = txBuilder.min_fee();
+  let totalFeesAmount = getMinFee(
+    txBuilder,
+    usedUtxos,
+    certificates,
+    withdrawals,
+    protocolParameters,
+  );
   let utxosTotalAmount = totalWithdrawal;
   if (deposit < 0) {
-    // stake deregistration, 2 ADA returned
+    // deposit refunded by deregistration certificates
     utxosTotalAmount = utxosTotalAmount.checked_add(
       bigNumFromStr(Math.abs(deposit).toString()),
     );
@@ -88,14 +140,30 @@ export const largestFirst = (
     txBuilder,
     outputs,
     changeAddress,
+    protocolParameters,
   );
 
   const addUtxoToSelection = (utxo: Utxo) => {
     const { input, address, amount } = buildTxInput(utxo);
-    const fee = txBuilder.fee_for_input(address, input, amount);
-    txBuilder.add_input(address, input, amount);
+    const prevMinFee = getMinFee(
+      txBuilder,
+      usedUtxos,
+      certificates,
+      withdrawals,
+      protocolParameters,
+    );
+    txBuilder.add_regular_input(address, input, amount);
     usedUtxos.push(utxo);
-    totalFeesAmount = totalFeesAmount.checked_add(fee);
+    // reference script fee is tiered, the utxo costs the difference between the fees with and without it
+    totalFeesAmount = totalFeesAmount.checked_add(
+      getMinFee(
+        txBuilder,
+        usedUtxos,
+        certificates,
+        withdrawals,
+        protocolParameters,
+      ).clamped_sub(prevMinFee),
+    );
     utxosTotalAmount = utxosTotalAmount.checked_add(
       bigNumFromStr(getAssetAmount(utxo)),
     );
@@ -104,13 +172,18 @@ export const largestFirst = (
   // set initial utxos set for setMax functionality
   const maxOutputIndex = outputs.findIndex(o => !!o.setMax);
   const maxOutput = preparedOutputs[maxOutputIndex];
-  const { used, remaining } = getInitialUtxoSet(sortedUtxos, maxOutput);
-  sortedUtxos = remaining;
+  const { used, remaining } = getInitialUtxoSet(remainingUtxos, maxOutput);
+  remainingUtxos = remaining;
   used.forEach(utxo => addUtxoToSelection(utxo));
 
   // add cost of external outputs to total fee amount
   totalFeesAmount = totalFeesAmount.checked_add(
-    calculateUserOutputsFee(txBuilder, preparedOutputs, changeAddress),
+    calculateUserOutputsFee(
+      txBuilder,
+      preparedOutputs,
+      changeAddress,
+      protocolParameters,
+    ),
   );
 
   let totalUserOutputsAmount = getUserOutputQuantityWithDeposit(
@@ -128,6 +201,7 @@ export const largestFirst = (
         txBuilder,
         [maxOutput],
         changeAddress,
+        protocolParameters,
       )[0];
     }
 
@@ -140,6 +214,7 @@ export const largestFirst = (
       utxosTotalAmount,
       getUserOutputQuantityWithDeposit(preparedOutputs, deposit),
       totalFeesAmount,
+      protocolParameters,
     );
 
     if (maxOutput) {
@@ -147,6 +222,7 @@ export const largestFirst = (
       const { maxOutput: newMaxOutput } = setMaxOutput(
         maxOutput,
         singleChangeOutput,
+        protocolParameters,
       );
 
       // change output may be completely removed if all ADA are consumed by max output
@@ -158,11 +234,20 @@ export const largestFirst = (
       );
 
       // recalculate fees for outputs as cost for max output may be larger than before
-      totalFeesAmount = txBuilder
-        .min_fee()
-        .checked_add(
-          calculateUserOutputsFee(txBuilder, preparedOutputs, changeAddress),
-        );
+      totalFeesAmount = getMinFee(
+        txBuilder,
+        usedUtxos,
+        certificates,
+        withdrawals,
+        protocolParameters,
+      ).checked_add(
+        calculateUserOutputsFee(
+          txBuilder,
+          preparedOutputs,
+          changeAddress,
+          protocolParameters,
+        ),
+      );
 
       // recalculate change after setting amount to max output
       singleChangeOutput = prepareChangeOutput(
@@ -173,6 +258,7 @@ export const largestFirst = (
         utxosTotalAmount,
         getUserOutputQuantityWithDeposit(preparedOutputs, deposit),
         totalFeesAmount,
+        protocolParameters,
       );
     }
 
@@ -181,6 +267,7 @@ export const largestFirst = (
           txBuilder,
           singleChangeOutput,
           changeAddress,
+          protocolParameters,
           options?._maxTokensPerOutput,
         )
       : [];
@@ -199,7 +286,7 @@ export const largestFirst = (
     if (
       utxosTotalAmount.compare(requiredAmount) >= 0 &&
       unsatisfiedAssets.length === 0 &&
-      usedUtxos.length > 0 && // TODO: force at least 1 utxo, otherwise withdrawal tx is composed without utxo if rewards > tx cost
+      usedUtxos.length > 0 && // tx without inputs is invalid even if withdrawals and refunds cover its cost
       !forceAnotherRound
     ) {
       // we are done. we have enough utxos to cover fees + minUtxoValue for each output. now we can add the cost of the change output to total fees
@@ -216,7 +303,7 @@ export const largestFirst = (
           assets: multiAssetToArray(change.output.amount().multiasset()),
         }));
       } else {
-        if (sortedUtxos.length > 0) {
+        if (remainingUtxos.length > 0) {
           // In current iteration we don't have enough utxo to meet min utxo value for an output,
           // but some utxos are still available, force adding another one in order to create a change output
           forceAnotherRound = true;
@@ -231,16 +318,31 @@ export const largestFirst = (
       }
       sufficientUtxos = true;
     } else {
-      if (unsatisfiedAssets.length > 0) {
-        // TODO: https://github.com/Emurgo/cardano-serialization-lib/pull/264
-        sortedUtxos = sortUtxos(sortedUtxos, unsatisfiedAssets[0]);
-      } else {
-        sortedUtxos = sortUtxos(sortedUtxos);
-      }
-
-      const utxo = sortedUtxos.shift();
+      const utxo = strategy.selectNext({
+        utxos: remainingUtxos,
+        selectedUtxos: usedUtxos,
+        outputs: preparedOutputs,
+        unsatisfiedAssets,
+      });
       if (!utxo) break;
+      const utxoIndex = remainingUtxos.findIndex(
+        u => u.txHash === utxo.txHash && u.outputIndex === utxo.outputIndex,
+      );
+      if (utxoIndex < 0) {
+        throw new Error('Selection strategy picked an unavailable utxo');
+      }
+      remainingUtxos.splice(utxoIndex, 1);
       addUtxoToSelection(utxo);
+      // Inputs are never removed, the tx only grows. The default strategy adds the largest utxos first so no other
+      // selection would fit, a custom strategy may have skipped one that would.
+      const txSize = getTxSize(
+        txBuilder,
+        protocolParameters,
+        preparedOutputs.map(output =>
+          buildTxOutput(output, changeAddress, protocolParameters),
+        ),
+      );
+      if (txSize !== undefined) assertTxSize(txSize, protocolParameters);
       forceAnotherRound = false;
     }
     // END LOOP
@@ -251,7 +353,7 @@ export const largestFirst = (
   }
 
   preparedOutputs.forEach(output => {
-    const txOutput = buildTxOutput(output, changeAddress);
+    const txOutput = buildTxOutput(output, changeAddress, protocolParameters);
     txBuilder.add_output(txOutput);
   });
 
@@ -259,16 +361,23 @@ export const largestFirst = (
   if (changeOutput) {
     changeOutput.forEach(change => {
       finalOutputs.push(change);
-      txBuilder.add_output(buildTxOutput(change, changeAddress));
+      txBuilder.add_output(
+        buildTxOutput(change, changeAddress, protocolParameters),
+      );
     });
   }
 
   txBuilder.set_fee(totalFeesAmount);
-  const txBody = txBuilder.build();
-  const txHash = Buffer.from(
-    CardanoWasm.hash_transaction(txBody).to_bytes(),
-  ).toString('hex');
-  const txBodyHex = Buffer.from(txBody.to_bytes()).toString('hex');
+  const txSize =
+    txBuilder.full_size() -
+    getSetTagsSize(usedUtxos, certificates, withdrawals, protocolParameters);
+  assertTxSize(txSize, protocolParameters);
+  assertReferenceScriptSize(usedUtxos);
+  const txBody = withMaxTxSize(() => txBuilder.build());
+  const { body: txBodyHex, hash: txHash } = serializeTxBody(
+    txBody,
+    protocolParameters,
+  );
 
   const totalSpent = totalUserOutputsAmount.checked_add(totalFeesAmount);
 
@@ -285,12 +394,21 @@ export const largestFirst = (
   const orderedInputs = orderInputs(usedUtxos, txBody);
 
   return {
-    tx: { body: txBodyHex, hash: txHash, size: txBuilder.full_size() },
+    tx: { body: txBodyHex, hash: txHash, size: txSize },
     inputs: orderedInputs,
     outputs: finalOutputs,
     fee: totalFeesAmount.to_str(),
+    feeBreakdown: getFeeBreakdown(
+      totalFeesAmount,
+      usedUtxos,
+      protocolParameters,
+    ),
     totalSpent: totalSpent.to_str(),
     deposit: deposit.toString(),
+    depositBreakdown: {
+      certificates: certificatesDeposit.toString(),
+      proposals: proposalsDeposit.toString(),
+    },
     withdrawal: totalWithdrawal.to_str(),
     ttl,
     max,
@@ -0,0 +1,132 @@
+import { ERROR } from '../constants';
+import {
+  CoinSelectionParams,
+  CoinSelectionResult,
+  Options,
+  SelectionAlgorithm,
+  SelectionObjective,
+} from '../types/types';
+import { bigNumFromStr } from '../utils/common';
+import { CoinSelectionError } from '../utils/errors';
+import { getLogger } from '../utils/logger';
+import { generateSeed } from '../utils/random';
+import { branchAndBound } from './branchAndBound';
+import { largestFirst } from './largestFirst';
+import { randomImprove } from './randomImprove';
+
+export const DEFAULT_OPTIMIZE_RUNS = 10;
+
+const RANDOMIZED_ALGORITHMS: SelectionAlgorithm[] = [
+  'random-improve',
+  'random-improve-per-output',
+];
+
+const isApplicable = (
+  algorithm: SelectionAlgorithm,
+  params: CoinSelectionParams,
+): boolean => {
+  switch (algorithm) {
+    case 'branch-and-bound':
+      return (
+        params.outputs.every(o => o.amount && o.assets.length === 0) &&
+        params.certificates.length === 0 &&
+        params.withdrawals.length === 0 &&
+        !params.votes?.length &&
+        !params.proposals?.length
+      );
+    case 'random-improve':
+    case 'random-improve-per-output':
+      // random-improve supports setMax only on token outputs
+      return !params.outputs.find(o => o.setMax && o.assets.length === 0);
+    default:
+      return true;
+  }
+};
+
+const runAlgorithm = (
+  algorithm: SelectionAlgorithm,
+  params: CoinSelectionParams,
+  options: Options,
+): CoinSelectionResult => {
+  // algorithms may modify outputs (eg. setMax), every run gets its own copy
+  const paramsCopy: CoinSelectionParams = JSON.parse(JSON.stringify(params));
+  switch (algorithm) {
+    case 'branch-and-bound':
+      return branchAndBound(paramsCopy, options);
+    case 'random-improve':
+      return randomImprove(paramsCopy, options);
+    case 'random-improve-per-output':
+      return randomImprove(paramsCopy, {
+        ...options,
+        randomImprovePerOutput: true,
+      });
+    case 'largest-first':
+      return largestFirst(paramsCopy, options);
+  }
+};
+
+// negative if res1 is better than res2
+const compareResults = (
+  res1: CoinSelectionResult,
+  res2: CoinSelectionResult,
+  objective: SelectionObjective,
+): number => {
+  if (objective === 'inputs' && res1.inputs.length !== res2.inputs.length) {
+    return res1.inputs.length - res2.inputs.length;
+  }
+  if (objective === 'size' && res1.tx.size !== res2.tx.size) {
+    return res1.tx.size - res2.tx.size;
+  }
+  // ties are resolved by lower fee
+  return bigNumFromStr(res1.fee).compare(bigNumFromStr(res2.fee));
+};
+
+export const optimize = (
+  params: CoinSelectionParams,
+  options?: Options,
+): CoinSelectionResult => {
+  const logger = getLogger(!!options?.debug);
+  const objective = options?.optimize?.objective ?? 'fee';
+  const runs = options?.optimize?.runs ?? DEFAULT_OPTIMIZE_RUNS;
+  const algorithms = (
+    options?.optimize?.algorithms ?? [
+      'branch-and-bound',
+      'random-improve',
+      'random-improve-per-output',
+      'largest-first',
+    ]
+  ).filter(algorithm => isApplicable(algorithm, params));
+
+  // each run of a randomized algorithm gets a different seed, the winning one is returned in the result
+  const baseSeed = options?.seed ?? generateSeed();
+
+  let best: CoinSelectionResult | null = null;
+  // errors of later algorithms (largest-first) are the most descriptive
+  let lastError: CoinSelectionError | null = null;
+  for (const algorithm of algorithms) {
+    const algorithmRuns = RANDOMIZED_ALGORITHMS.includes(algorithm) ? runs : 1;
+    for (let run = 0; run < algorithmRuns; run++) {
+      try {
+        const res = runAlgorithm(algorithm, params, {
+          ...options,
+          seed: options?.rng ? options.seed : (baseSeed + run) >>> 0,
+        });
+        logger.debug(
+          `${algorithm} run ${run}: fee ${res.fee}, inputs ${res.inputs.length}, size ${res.tx.size}`,
+        );
+        if (!best || compareResults(res, best, objective) < 0) {
+          best = { ...res, optimization: { algorithm, run } };
+        }
+      } catch (error) {
+        if (!(error instanceof CoinSelectionError)) throw error;
+        logger.debug(`${algorithm} run ${run} failed with ${error.code}`);
+        lastError = error;
+      }
+    }
+  }
+
+  if (!best) {
+    throw lastError ?? new CoinSelectionError(ERROR.UTXO_BALANCE_INSUFFICIENT);
+  }
+  return best;
+};
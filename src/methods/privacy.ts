@@ -0,0 +1,131 @@
+import * as CardanoWasm from '@emurgo/cardano-serialization-lib-browser';
+import {
+  CoinSelectionParams,
+  CoinSelectionResult,
+  Options,
+  PrivacyPolicy,
+  UserOutput,
+  Utxo,
+} from '../types/types';
+import { getOutputQuantity, getUtxoQuantity } from '../utils/common';
+import { CoinSelectionError } from '../utils/errors';
+import { getLogger } from '../utils/logger';
+
+// Selection may succeed once more utxos are available
+const RETRYABLE_ERRORS: CoinSelectionError['code'][] = [
+  'UTXO_BALANCE_INSUFFICIENT',
+  'UTXO_NOT_FRAGMENTED_ENOUGH',
+  'TX_TOO_BIG',
+];
+
+export const getUtxoGroupKey = (utxo: Utxo, policy: PrivacyPolicy): string => {
+  if (policy === 'stake-key') {
+    const baseAddress = CardanoWasm.BaseAddress.from_address(
+      CardanoWasm.Address.from_bech32(utxo.address),
+    );
+    if (baseAddress) {
+      return Buffer.from(baseAddress.stake_cred().to_bytes()).toString('hex');
+    }
+    // enterprise and pointer addresses are grouped by the address itself
+  }
+  return utxo.address;
+};
+
+const groupUtxos = (utxos: Utxo[], policy: PrivacyPolicy): Utxo[][] => {
+  const groups = new Map<string, Utxo[]>();
+  utxos.forEach(utxo => {
+    const key = getUtxoGroupKey(utxo, policy);
+    groups.set(key, [...(groups.get(key) ?? []), utxo]);
+  });
+  return Array.from(groups.values());
+};
+
+// Greedy ordering, each next group is the one which fully covers the most of the assets
+// still missing for the outputs (and then the one with the most ADA)
+const orderGroups = (groups: Utxo[][], outputs: UserOutput[]): Utxo[][] => {
+  const units = outputs.reduce(
+    (acc, output) => {
+      output.assets.forEach(asset => {
+        if (!acc.includes(asset.unit)) acc.push(asset.unit);
+      });
+      return acc;
+    },
+    ['lovelace'],
+  );
+  const missing = new Map(
+    units.map(unit => [unit, getOutputQuantity(outputs, unit)]),
+  );
+
+  const coveredAssets = (group: Utxo[]) =>
+    units.filter(unit => {
+      const quantity = missing.get(unit);
+      return (
+        quantity &&
+        !quantity.is_zero() &&
+        getUtxoQuantity(group, unit).compare(quantity) >= 0
+      );
+    }).length;
+
+  const remaining = [...groups];
+  const ordered: Utxo[][] = [];
+  while (remaining.length > 0) {
+    const next = remaining.reduce((best, group) => {
+      const diff = coveredAssets(group) - coveredAssets(best);
+      if (diff !== 0) return diff > 0 ? group : best;
+      return getUtxoQuantity(group, 'lovelace').compare(
+        getUtxoQuantity(best, 'lovelace'),
+      ) > 0
+        ? group
+        : best;
+    });
+    remaining.splice(remaining.indexOf(next), 1);
+    ordered.push(next);
+    units.forEach(unit => {
+      const quantity = missing.get(unit);
+      if (quantity) {
+        missing.set(unit, quantity.clamped_sub(getUtxoQuantity(next, unit)));
+      }
+    });
+  }
+  return ordered;
+};
+
+export const privacy = (
+  params: CoinSelectionParams,
+  options: Options | undefined,
+  select: (
+    params: CoinSelectionParams,
+    options?: Options,
+  ) => CoinSelectionResult,
+): CoinSelectionResult => {
+  const logger = getLogger(!!options?.debug);
+  const policy = options?.privacy;
+  if (!policy || params.outputs.some(o => o.setMax)) {
+    // setMax needs all utxos with the asset, there is nothing to keep apart
+    return select(params, options);
+  }
+
+  // Add groups of utxos (addresses or stake keys) one by one until the selection succeeds
+  const groups = orderGroups(groupUtxos(params.utxos, policy), params.outputs);
+  for (let count = 1; count < groups.length; count++) {
+    const utxos = groups
+      .slice(0, count)
+      .reduce((acc, group) => acc.concat(group), [] as Utxo[]);
+    try {
+      return select({ ...params, utxos }, options);
+    } catch (error) {
+      if (
+        !(error instanceof CoinSelectionError) ||
+        !RETRYABLE_ERRORS.includes(error.code)
+      ) {
+        throw error;
+      }
+      logger.debug(
+        `Selection from ${count} group(s) by ${policy} failed with ${error.code}`,
+      );
+    }
+  }
+
+  // utxos from all groups
+  return select(params, options);
+};
@@ -1,16 +1,25 @@
 import { ERROR } from '../constants';
 import * as CardanoWasm from '@emurgo/cardano-serialization-lib-browser';
 import {
+  Certificate,
   CoinSelectionParams,
   CoinSelectionResult,
   Options,
   Output,
   OutputCost,
+  ProtocolParameters,
   UserOutput,
   Utxo,
+  Withdrawal,
 } from '../types/types';
 import {
   bigNumFromStr,
+  calculateRequiredDeposit,
+  prepareCertificates,
+  prepareWithdrawals,
+  prepareVotes,
+  prepareProposals,
+  calculateProposalDeposit,
   prepareChangeOutput,
   setMinUtxoValueForOutputs,
   getTxBuilder,
@@ -24,10 +33,22 @@ import {
   getUtxoQuantity,
   getOutputQuantity,
   getRandomUtxo,
+  pickUtxo,
+  assertTxSize,
+  assertReferenceScriptSize,
+  withMaxTxSize,
+  getInitialUtxoSet,
+  getOutputCost,
   orderInputs,
+  getProtocolParameters,
+  serializeTxBody,
+  getMinFee,
+  getFeeBreakdown,
+  getSetTagsSize,
 } from '../utils/common';
 import { CoinSelectionError } from '../utils/errors';
 import { getLogger } from '../utils/logger';
+import { getRandomGenerator, RandomGenerator } from '../utils/random';
 // Heavily inspired by https://github.com/input-output-hk/cardano-js-sdk
 
 const improvesSelection = (
@@ -62,51 +83,140 @@ const improvesSelection = (
   return false;
 };
 
-const selection = (
+interface ImplicitCoin {
+  // withdrawals and deposit refunds
+  input: CardanoWasm.BigNum;
+  // deposits for certificates
+  deposit: CardanoWasm.BigNum;
+}
+
+const getMinimumTarget = (
+  preparedOutputs: UserOutput[],
+  asset: string,
+  implicitCoin: ImplicitCoin,
+): CardanoWasm.BigNum => {
+  const outputQuantity = getOutputQuantity(preparedOutputs, asset);
+  if (asset !== 'lovelace') return outputQuantity;
+  return outputQuantity
+    .checked_add(implicitCoin.deposit)
+    .clamped_sub(implicitCoin.input);
+};
+
+const prepareOutputs = (
   utxos: Utxo[],
+  utxoInitial: Utxo[],
   outputs: UserOutput[],
   txBuilder: CardanoWasm.TransactionBuilder,
   dummyAddress: string,
+  implicitCoin: ImplicitCoin,
+  protocolParameters: ProtocolParameters,
 ) => {
-  const utxoSelected: Utxo[] = [];
-  const utxoRemaining = JSON.parse(JSON.stringify(utxos)) as Utxo[];
   const preparedOutputs = setMinUtxoValueForOutputs(
     txBuilder,
     outputs,
     dummyAddress,
+    protocolParameters,
   );
+  const maxOutput = preparedOutputs.find(o => !!o.setMax);
+  if (maxOutput) {
+    // All utxos containing the token are in the initial set, so the max amount
+    // is known upfront: their quantity minus the quantity sent by other outputs
+    const maxOutputAsset = maxOutput.assets[0];
+    maxOutputAsset.quantity = getUtxoQuantity(utxoInitial, maxOutputAsset.unit)
+      .clamped_sub(getOutputQuantity(preparedOutputs, maxOutputAsset.unit))
+      .to_str();
+    maxOutput.amount = getOutputCost(
+      txBuilder,
+      maxOutput,
+      dummyAddress,
+      protocolParameters,
+    ).minOutputAmount.to_str();
+  }
+  utxoInitial.forEach(utxo => {
+    const { input, address, amount } = buildTxInput(utxo);
+    txBuilder.add_regular_input(address, input, amount);
+  });
   preparedOutputs.forEach(output => {
-    const txOutput = buildTxOutput(output, dummyAddress);
+    const txOutput = buildTxOutput(output, dummyAddress, protocolParameters);
     txBuilder.add_output(txOutput);
   });
   // Check for UTXO_BALANCE_INSUFFICIENT comparing provided inputs with requested outputs
-  const assetsRemaining = getUnsatisfiedAssets(utxoSelected, preparedOutputs);
-  assetsRemaining.forEach(asset => {
-    const outputQuantity = getOutputQuantity(preparedOutputs, asset);
-    const utxosQuantity = getUtxoQuantity(utxos, asset);
+  getUnsatisfiedAssets([], preparedOutputs).forEach(asset => {
+    const outputQuantity = getMinimumTarget(
+      preparedOutputs,
+      asset,
+      implicitCoin,
+    );
+    const utxosQuantity = getUtxoQuantity(utxos.concat(utxoInitial), asset);
     if (outputQuantity.compare(utxosQuantity) > 0) {
       throw new CoinSelectionError(ERROR.UTXO_BALANCE_INSUFFICIENT);
     }
   });
+  return preparedOutputs;
+};
+
+const getAssetsToSelect = (
+  preparedOutputs: UserOutput[],
+  implicitCoin: ImplicitCoin,
+): string[] => {
+  const assets = getUnsatisfiedAssets([], preparedOutputs);
+  if (
+    !assets.includes('lovelace') &&
+    getMinimumTarget(preparedOutputs, 'lovelace', implicitCoin).compare(
+      bigNumFromStr('0'),
+    ) > 0
+  ) {
+    // outputs don't require any ADA, but there are deposits to be paid
+    assets.push('lovelace');
+  }
+  return assets;
+};
+
+const selection = (
+  utxos: Utxo[],
+  utxoInitial: Utxo[],
+  outputs: UserOutput[],
+  txBuilder: CardanoWasm.TransactionBuilder,
+  dummyAddress: string,
+  rng: RandomGenerator,
+  implicitCoin: ImplicitCoin,
+  protocolParameters: ProtocolParameters,
+) => {
+  const utxoSelected: Utxo[] = [...utxoInitial];
+  const utxoRemaining = JSON.parse(JSON.stringify(utxos)) as Utxo[];
+  const preparedOutputs = prepareOutputs(
+    utxos,
+    utxoInitial,
+    outputs,
+    txBuilder,
+    dummyAddress,
+    implicitCoin,
+    protocolParameters,
+  );
+  const assetsRemaining = getAssetsToSelect(preparedOutputs, implicitCoin);
 
   while (assetsRemaining.length > 0) {
     assetsRemaining.forEach((asset, assetIndex) => {
       const assetUtxos = filterUtxos(utxoRemaining, asset);
-      if (assetUtxos.length > 0) {
-        const inputIdx = Math.floor(Math.random() * assetUtxos.length);
-        const utxo = assetUtxos[inputIdx];
-
+      const utxo = pickUtxo(
+        txBuilder,
+        assetUtxos,
+        rng,
+        protocolParameters,
+        asset,
+      );
+      if (utxo) {
         if (
           improvesSelection(
             utxoSelected,
             utxo,
-            getOutputQuantity(preparedOutputs, asset),
+            getMinimumTarget(preparedOutputs, asset, implicitCoin),
             asset,
           )
         ) {
           utxoSelected.push(utxo);
           const { input, address, amount } = buildTxInput(utxo);
-          txBuilder.add_input(address, input, amount);
+          txBuilder.add_regular_input(address, input, amount);
           utxoRemaining.splice(utxoRemaining.indexOf(utxo), 1);
         } else {
           // The selection was not improved by including
@@ -130,6 +240,133 @@ const selection = (
   return { utxoSelected, utxoRemaining, preparedOutputs };
 };
 
+// CIP-2 variant, each output is covered by its own selection of inputs independently of other outputs
+export const selectionPerOutput = (
+  utxos: Utxo[],
+  utxoInitial: Utxo[],
+  outputs: UserOutput[],
+  txBuilder: CardanoWasm.TransactionBuilder,
+  dummyAddress: string,
+  rng: RandomGenerator,
+  implicitCoin: ImplicitCoin,
+  protocolParameters: ProtocolParameters,
+) => {
+  const utxoRemaining = JSON.parse(JSON.stringify(utxos)) as Utxo[];
+  const preparedOutputs = prepareOutputs(
+    utxos,
+    utxoInitial,
+    outputs,
+    txBuilder,
+    dummyAddress,
+    implicitCoin,
+    protocolParameters,
+  );
+
+  const addUtxo = (outputSelection: Utxo[], utxo: Utxo) => {
+    outputSelection.push(utxo);
+    const { input, address, amount } = buildTxInput(utxo);
+    txBuilder.add_regular_input(address, input, amount);
+    utxoRemaining.splice(utxoRemaining.indexOf(utxo), 1);
+  };
+
+  // deposits not covered by withdrawals and refunds need their own selection, as if they were another output
+  const netDeposit = implicitCoin.deposit.clamped_sub(implicitCoin.input);
+  const depositOutput: UserOutput[] =
+    netDeposit.compare(bigNumFromStr('0')) > 0
+      ? [{ amount: netDeposit.to_str(), assets: [], setMax: false }]
+      : [];
+
+  const outputSelections = [...preparedOutputs, ...depositOutput].map(
+    output => ({
+      output,
+      // initial utxos (for setMax) belong to the selection of the max output
+      utxoSelected: output.setMax ? [...utxoInitial] : ([] as Utxo[]),
+    }),
+  );
+
+  // tokens are selected first, lovelace last
+  const assets: string[] = [];
+  preparedOutputs.forEach(output => {
+    output.assets.forEach(a => {
+      if (!assets.includes(a.unit)) assets.push(a.unit);
+    });
+  });
+  assets.push('lovelace');
+
+  // outputs containing the asset, in descending order of the asset's quantity
+  const getAssetSelections = (asset: string) =>
+    outputSelections
+      .filter(
+        s =>
+          getOutputQuantity([s.output], asset).compare(bigNumFromStr('0')) > 0,
+      )
+      .sort((s1, s2) =>
+        getOutputQuantity([s2.output], asset).compare(
+          getOutputQuantity([s1.output], asset),
+        ),
+      );
+
+  // Phase 1: Random select
+  // For each asset process outputs in descending order, randomly selecting inputs until the output is covered (100%)
+  assets.forEach(asset => {
+    getAssetSelections(asset).forEach(({ output, utxoSelected }) => {
+      const minimumTarget = getOutputQuantity([output], asset);
+      while (getUtxoQuantity(utxoSelected, asset).compare(minimumTarget) < 0) {
+        const utxo = pickUtxo(
+          txBuilder,
+          filterUtxos(utxoRemaining, asset),
+          rng,
+          protocolParameters,
+          asset,
+        );
+        if (!utxo) {
+          // Balance is sufficient (due to the pre-condition), but the remaining
+          // inputs were already consumed by the selections for other outputs
+          throw new CoinSelectionError(ERROR.UTXO_NOT_FRAGMENTED_ENOUGH);
+        }
+        addUtxo(utxoSelected, utxo);
+      }
+    });
+  });
+
+  // Phase 2: Improve
+  // For each asset process outputs in ascending order, adding random inputs while they move
+  // the output's selection closer to its ideal target (200%)
+  assets.forEach(asset => {
+    getAssetSelections(asset)
+      .reverse()
+      .forEach(({ output, utxoSelected }) => {
+        const minimumTarget = getOutputQuantity([output], asset);
+        let improved = true;
+        while (improved) {
+          const assetUtxos = filterUtxos(utxoRemaining, asset);
+          const utxo = pickUtxo(
+            txBuilder,
+            assetUtxos,
+            rng,
+            protocolParameters,
+            asset,
+          );
+          // An input that moves us closer to 200% also can't exceed the upper limit of 300%
+          if (
+            utxo &&
+            improvesSelection(utxoSelected, utxo, minimumTarget, asset)
+          ) {
+            addUtxo(utxoSelected, utxo);
+          } else {
+            improved = false;
+          }
+        }
+      });
+  });
+
+  const utxoSelected = outputSelections.reduce(
+    (acc, s) => acc.concat(s.utxoSelected),
+    [] as Utxo[],
+  );
+  return { utxoSelected, utxoRemaining, preparedOutputs, outputSelections };
+};
+
 const calculateChange = (
   utxoSelected: Utxo[],
   utxoRemaining: Utxo[],
@@ -137,22 +374,58 @@ const calculateChange = (
   changeAddress: string,
   maxTokensPerOutput: number | undefined,
   txBuilder: CardanoWasm.TransactionBuilder,
+  rng: RandomGenerator,
+  implicitCoin: ImplicitCoin,
+  certificates: Certificate[],
+  withdrawals: Withdrawal[],
+  protocolParameters: ProtocolParameters,
 ): { changeOutputs: OutputCost[] } => {
-  const totalFeesAmount = txBuilder.min_fee();
-  const totalUserOutputsAmount = getUserOutputQuantityWithDeposit(
-    preparedOutputs,
-    0,
+  const totalFeesAmount = getMinFee(
+    txBuilder,
+    utxoSelected,
+    certificates,
+    withdrawals,
+    protocolParameters,
   );
+  const totalUserOutputsAmount = getOutputQuantity(
+    preparedOutputs,
+    'lovelace',
+  ).checked_add(implicitCoin.deposit);
+  const totalInputAmount = getUtxoQuantity(
+    utxoSelected,
+    'lovelace',
+  ).checked_add(implicitCoin.input);
 
   const singleChangeOutput = prepareChangeOutput(
     txBuilder,
     utxoSelected,
     preparedOutputs,
     changeAddress,
-    getUtxoQuantity(utxoSelected, 'lovelace'),
-    getUserOutputQuantityWithDeposit(preparedOutputs, 0),
+    totalInputAmount,
+    totalUserOutputsAmount,
     totalFeesAmount,
-    () => getRandomUtxo(txBuilder, utxoRemaining, utxoSelected),
+    protocolParameters,
+    () => {
+      const randomUtxo = getRandomUtxo(
+        txBuilder,
+        utxoRemaining,
+        utxoSelected,
+        rng,
+        protocolParameters,
+      );
+      if (!randomUtxo) return null;
+      randomUtxo.addUtxo();
+      return {
+        utxo: randomUtxo.utxo,
+        minFee: getMinFee(
+          txBuilder,
+          utxoSelected,
+          certificates,
+          withdrawals,
+          protocolParameters,
+        ),
+      };
+    },
   );
 
   const changeOutputs = singleChangeOutput
@@ -160,6 +433,7 @@ const calculateChange = (
         txBuilder,
         singleChangeOutput,
         changeAddress,
+        protocolParameters,
         maxTokensPerOutput,
       )
     : [];
@@ -172,8 +446,19 @@ const calculateChange = (
       .checked_add(changeOutput.outputFee);
   });
 
-  if (requiredAmount.compare(getUtxoQuantity(utxoSelected, 'lovelace')) > 0) {
-    const randomUtxo = getRandomUtxo(txBuilder, utxoRemaining, utxoSelected);
+  // prepareChangeOutput may have picked additional utxos
+  const newTotalInputAmount = getUtxoQuantity(
+    utxoSelected,
+    'lovelace',
+  ).checked_add(implicitCoin.input);
+  if (requiredAmount.compare(newTotalInputAmount) > 0) {
+    const randomUtxo = getRandomUtxo(
+      txBuilder,
+      utxoRemaining,
+      utxoSelected,
+      rng,
+      protocolParameters,
+    );
     if (randomUtxo?.utxo) {
       randomUtxo.addUtxo();
       const { changeOutputs } = calculateChange(
@@ -183,6 +468,11 @@ const calculateChange = (
         changeAddress,
         maxTokensPerOutput,
         txBuilder,
+        rng,
+        implicitCoin,
+        certificates,
+        withdrawals,
+        protocolParameters,
       );
       return { changeOutputs };
     } else {
@@ -194,32 +484,117 @@ const calculateChange = (
 };
 
 export const randomImprove = (
-  params: Pick<
-    CoinSelectionParams,
-    'utxos' | 'outputs' | 'changeAddress' | 'ttl'
-  >,
+  params: CoinSelectionParams,
   options?: Options,
 ): CoinSelectionResult => {
-  const { utxos, outputs, changeAddress, ttl } = params;
+  const {
+    utxos,
+    outputs,
+    changeAddress,
+    certificates,
+    withdrawals,
+    votes = [],
+    proposals = [],
+    accountPubKey,
+    ttl,
+  } = params;
   const logger = getLogger(!!options?.debug);
+  const maxOutput = outputs.find(o => !!o.setMax);
+  if (maxOutput && maxOutput.assets.length === 0) {
+    // max ADA output needs all utxos, there is nothing to randomly select
+    throw new CoinSelectionError(ERROR.UNSUPPORTED_SET_MAX_OUTPUT);
+  }
   if (outputs.length > utxos.length) {
     logger.debug(
       'There are more outputs than utxos. Random-improve alg needs to have number of utxos same or larger than number of outputs',
     );
     throw new CoinSelectionError(ERROR.UTXO_NOT_FRAGMENTED_ENOUGH);
   }
-  const txBuilder = getTxBuilder(options?.feeParams?.a);
+  const protocolParameters = getProtocolParameters(options);
+  const txBuilder = getTxBuilder(protocolParameters);
   if (ttl) {
     txBuilder.set_ttl(ttl);
   }
 
-  const { utxoSelected, utxoRemaining, preparedOutputs } = selection(
-    utxos,
+  // add withdrawals and certs to correctly set a fee
+  const accountKey = CardanoWasm.Bip32PublicKey.from_bytes(
+    Buffer.from(accountPubKey, 'hex'),
+  );
+  if (certificates.length > 0) {
+    txBuilder.set_certs_builder(
+      prepareCertificates(certificates, accountKey, protocolParameters),
+    );
+  }
+  const preparedWithdrawals = prepareWithdrawals(withdrawals, accountKey);
+  if (withdrawals.length > 0) {
+    txBuilder.set_withdrawals_builder(preparedWithdrawals);
+  }
+  if (votes.length > 0) {
+    txBuilder.set_voting_builder(
+      prepareVotes(votes, accountKey, protocolParameters),
+    );
+  }
+  if (proposals.length > 0) {
+    txBuilder.set_voting_proposal_builder(
+      prepareProposals(proposals, protocolParameters),
+    );
+  }
+
+  const certificatesDeposit = calculateRequiredDeposit(
+    certificates,
+    protocolParameters,
+  );
+  const proposalsDeposit = calculateProposalDeposit(
+    proposals,
+    protocolParameters,
+  );
+  const deposit = certificatesDeposit + proposalsDeposit;
+  const totalWithdrawal = withdrawals.reduce(
+    (acc, withdrawal) => acc.checked_add(bigNumFromStr(withdrawal.amount)),
+    bigNumFromStr('0'),
+  );
+  const implicitCoin: ImplicitCoin = {
+    // deregistration certificates, deposit is refunded
+    input:
+      deposit < 0
+        ? totalWithdrawal.checked_add(
+            bigNumFromStr(Math.abs(deposit).toString()),
+          )
+        : totalWithdrawal,
+    deposit: bigNumFromStr(Math.max(deposit, 0).toString()),
+  };
+
+  // every random choice is made by this generator, passing the same seed back reproduces the selection
+  const { rng, seed } = getRandomGenerator(options);
+  logger.debug(`Random-improve seed: ${seed}`);
+
+  const select = options?.randomImprovePerOutput
+    ? selectionPerOutput
+    : selection;
+  // set initial utxos set for setMax functionality
+  const { used, remaining } = getInitialUtxoSet(utxos, maxOutput);
+  const { utxoSelected, utxoRemaining, preparedOutputs } = select(
+    remaining,
+    used,
     outputs,
     txBuilder,
     changeAddress,
+    rng,
+    implicitCoin,
+    protocolParameters,
   );
 
+  if (utxoSelected.length === 0) {
+    // withdrawal may cover the whole tx, but it still needs at least one input
+    getRandomUtxo(
+      txBuilder,
+      utxoRemaining,
+      utxoSelected,
+      rng,
+      protocolParameters,
+    )?.addUtxo();
+  }
+
   // compute change and adjust for fee
   const { changeOutputs } = calculateChange(
     utxoSelected,
@@ -228,6 +603,11 @@ export const randomImprove = (
     changeAddress,
     options?._maxTokensPerOutput,
     txBuilder,
+    rng,
+    implicitCoin,
+    certificates,
+    withdrawals,
+    protocolParameters,
   );
 
   const finalOutputs: Output[] = JSON.parse(JSON.stringify(preparedOutputs));
@@ -239,36 +619,55 @@ export const randomImprove = (
       assets: multiAssetToArray(change.output.amount().multiasset()),
     };
     finalOutputs.push(ch);
-    txBuilder.add_output(buildTxOutput(ch, changeAddress));
+    txBuilder.add_output(buildTxOutput(ch, changeAddress, protocolParameters));
   });
 
   const totalUserOutputsAmount = getUserOutputQuantityWithDeposit(
     preparedOutputs,
-    0,
+    deposit,
   );
 
-  const totalInput = getUtxoQuantity(utxoSelected, 'lovelace');
-  const totalOutput = getOutputQuantity(finalOutputs, 'lovelace');
+  const totalInput = getUtxoQuantity(utxoSelected, 'lovelace').checked_add(
+    implicitCoin.input,
+  );
+  const totalOutput = getOutputQuantity(finalOutputs, 'lovelace').checked_add(
+    implicitCoin.deposit,
+  );
   const fee = totalInput.checked_sub(totalOutput);
   const totalSpent = totalUserOutputsAmount.checked_add(fee);
 
   txBuilder.set_fee(fee);
-  const txBody = txBuilder.build();
-  const txHash = Buffer.from(
-    CardanoWasm.hash_transaction(txBody).to_bytes(),
-  ).toString('hex');
-  const txBodyHex = Buffer.from(txBody.to_bytes()).toString('hex');
+  const txSize =
+    txBuilder.full_size() -
+    getSetTagsSize(utxoSelected, certificates, withdrawals, protocolParameters);
+  assertTxSize(txSize, protocolParameters);
+  assertReferenceScriptSize(utxoSelected);
+  const txBody = withMaxTxSize(() => txBuilder.build());
+  const { body: txBodyHex, hash: txHash } = serializeTxBody(
+    txBody,
+    protocolParameters,
+  );
+
+  // Set max property with the value of an output which has setMax=true
+  const max = preparedOutputs.find(o => !!o.setMax)?.assets[0].quantity;
 
   // reorder inputs to match order within tx
   const orderedInputs = orderInputs(utxoSelected, txBody);
   return {
-    tx: { body: txBodyHex, hash: txHash, size: txBuilder.full_size() },
+    tx: { body: txBodyHex, hash: txHash, size: txSize },
     inputs: orderedInputs,
     outputs: finalOutputs,
     fee: fee.to_str(),
+    feeBreakdown: getFeeBreakdown(fee, utxoSelected, protocolParameters),
     totalSpent: totalSpent.to_str(),
-    deposit: '0',
-    withdrawal: '0',
+    deposit: deposit.toString(),
+    depositBreakdown: {
+      certificates: certificatesDeposit.toString(),
+      proposals: proposalsDeposit.toString(),
+    },
+    withdrawal: totalWithdrawal.to_str(),
     ttl,
+    max,
+    seed,
   };
 };
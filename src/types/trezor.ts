@@ -53,3 +53,68 @@ export type CardanoSignedTxWitness = {
   signature: string;
   chainCode?: string | null;
 };
+
+export enum CardanoCertificateType {
+  STAKE_REGISTRATION = 0,
+  STAKE_DEREGISTRATION = 1,
+  STAKE_DELEGATION = 2,
+  STAKE_POOL_REGISTRATION = 3,
+  STAKE_REGISTRATION_CONWAY = 7,
+  STAKE_DEREGISTRATION_CONWAY = 8,
+  VOTE_DELEGATION = 9,
+}
+
+export enum CardanoDRepType {
+  KEY_HASH = 0,
+  SCRIPT_HASH = 1,
+  ABSTAIN = 2,
+  NO_CONFIDENCE = 3,
+}
+
+export type CardanoDRep = {
+  type: CardanoDRepType;
+  keyHash?: string;
+  scriptHash?: string;
+};
+
+export enum CardanoPoolRelayType {
+  SINGLE_HOST_IP = 0,
+  SINGLE_HOST_NAME = 1,
+  MULTIPLE_HOST_NAME = 2,
+}
+
+export type CardanoPoolOwner = {
+  stakingKeyPath?: string | number[];
+  stakingKeyHash?: string;
+};
+
+export type CardanoPoolRelay = {
+  type: CardanoPoolRelayType;
+  ipv4Address?: string;
+  ipv6Address?: string;
+  port?: number;
+  hostName?: string;
+};
+
+export type CardanoPoolParameters = {
+  poolId: string;
+  vrfKeyHash: string;
+  pledge: string;
+  cost: string;
+  margin: { numerator: string; denominator: string };
+  rewardAccount: string;
+  owners: CardanoPoolOwner[];
+  relays: CardanoPoolRelay[];
+  metadata?: { url: string; hash: string };
+};
+
+export type CardanoCertificate = {
+  type: CardanoCertificateType;
+  path?: string | number[];
+  scriptHash?: string;
+  keyHash?: string;
+  pool?: string;
+  poolParameters?: CardanoPoolParameters;
+  deposit?: string;
+  dRep?: CardanoDRep;
+};
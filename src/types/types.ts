@@ -1,6 +1,13 @@
 import * as CardanoWasm from '@emurgo/cardano-serialization-lib-browser';
 import { BigNum } from '@emurgo/cardano-serialization-lib-browser';
-import { CertificateType } from '../constants';
+import {
+  CertificateType,
+  DRepType,
+  GovernanceActionType,
+  PoolRelayType,
+  VoteKind,
+  VoterType,
+} from '../constants';
 
 export interface Asset {
   unit: string;
@@ -11,6 +18,8 @@ export interface Utxo {
   txHash: string;
   outputIndex: number;
   amount: Asset[];
+  // size in bytes of the reference script stored in the utxo
+  referenceScriptSize?: number;
 }
 
 export interface CardanoCertificatePointer {
@@ -67,16 +76,43 @@ export enum CardanoAddressType {
   REWARD_SCRIPT = 15,
 }
 
+export interface FeeBreakdown {
+  // size based fee (incl. change burned as a fee)
+  txFee: string;
+  // tiered fee for reference scripts of the inputs
+  referenceScriptFee: string;
+}
+
+export interface DepositBreakdown {
+  // deposits paid (refunded if negative) by the certificates
+  certificates: string;
+  // governance action deposits of the proposals
+  proposals: string;
+}
+
 export interface CoinSelectionResult {
   tx: { body: string; hash: string; size: number };
   inputs: Utxo[];
   outputs: Output[];
   fee: string;
+  feeBreakdown: FeeBreakdown;
   totalSpent: string;
   deposit: string;
+  depositBreakdown: DepositBreakdown;
   withdrawal: string;
   ttl?: number;
   max?: string;
+  seed?: number;
+  optimization?: { algorithm: SelectionAlgorithm; run: number };
+}
+
+export interface ConsolidationResult extends CoinSelectionResult {
+  outputs: ChangeOutput[];
+  consolidation: {
+    utxosBefore: number;
+    utxosAfter: number;
+    utxosRemoved: number;
+  };
 }
 
 export type PrecomposedTransaction =
@@ -88,52 +124,321 @@ export type PrecomposedTransaction =
       type: 'nonfinal';
     } & Pick<
       CoinSelectionResult,
-      'fee' | 'totalSpent' | 'deposit' | 'withdrawal' | 'max'
+      | 'fee'
+      | 'feeBreakdown'
+      | 'totalSpent'
+      | 'deposit'
+      | 'depositBreakdown'
+      | 'withdrawal'
+      | 'max'
     >);
 
 export interface Withdrawal {
   stakeAddress: string;
   amount: string;
+  // index N of the account's stake key m/1852'/1815'/account'/2/N the stakeAddress belongs to
+  stakeKeyIndex?: number;
+  // CBOR of the native script witnessing a script reward address, hex
+  nativeScript?: string;
 }
 
 export type CertificateTypeType = typeof CertificateType;
 
-export interface CertificateStakeRegistration {
+// Stake key of the account unless a key hash or a script hash is set
+export interface CertificateStakeCredential {
+  // index N of the account's stake key m/1852'/1815'/account'/2/N, defaults to 0
+  stakeKeyIndex?: number;
+  stakingKeyHash?: string;
+  stakingScriptHash?: string;
+  // CBOR of the native script witnessing the stakingScriptHash, hex
+  nativeScript?: string;
+}
+
+export interface CertificateStakeRegistration
+  extends CertificateStakeCredential {
   type:
     | CertificateTypeType['STAKE_REGISTRATION']
     | CertificateTypeType['STAKE_DEREGISTRATION'];
-  stakingKeyHash?: string;
+  // deposit paid by the registration or refunded by the deregistration, defaults to keyDeposit
+  deposit?: string;
 }
 
-export interface CertificateStakeDelegation {
-  type: CertificateTypeType['STAKE_DELEGATION'];
-  stakingKeyHash?: string;
+export interface CertificateStakeDelegation extends CertificateStakeCredential {
+  type:
+    | CertificateTypeType['STAKE_DELEGATION']
+    | CertificateTypeType['STAKE_REGISTRATION_DELEGATION'];
+  pool: string;
+  // registration and delegation only, defaults to keyDeposit
+  deposit?: string;
+}
+
+export type DRepTypeType = typeof DRepType;
+
+export type DRep =
+  | { type: DRepTypeType['KEY_HASH']; keyHash: string }
+  | { type: DRepTypeType['SCRIPT_HASH']; scriptHash: string }
+  | {
+      type:
+        | DRepTypeType['ALWAYS_ABSTAIN']
+        | DRepTypeType['ALWAYS_NO_CONFIDENCE'];
+    };
+
+export interface CertificateVoteDelegation extends CertificateStakeCredential {
+  type:
+    | CertificateTypeType['VOTE_DELEGATION']
+    | CertificateTypeType['VOTE_REGISTRATION_DELEGATION'];
+  drep: DRep;
+  // registration and delegation only, defaults to keyDeposit
+  deposit?: string;
+}
+
+export interface CertificateStakeVoteDelegation
+  extends CertificateStakeCredential {
+  type:
+    | CertificateTypeType['STAKE_VOTE_DELEGATION']
+    | CertificateTypeType['STAKE_VOTE_REGISTRATION_DELEGATION'];
   pool: string;
+  drep: DRep;
+  // registration and delegation only, defaults to keyDeposit
+  deposit?: string;
+}
+
+export type PoolRelayTypeType = typeof PoolRelayType;
+
+export interface PoolRelaySingleHostIp {
+  type: PoolRelayTypeType['SINGLE_HOST_IP'];
+  // at least one of the addresses, e.g. '192.168.0.1', '2001:db8::1'
+  ipv4Address?: string;
+  ipv6Address?: string;
+  port?: number;
+}
+
+export interface PoolRelaySingleHostName {
+  type: PoolRelayTypeType['SINGLE_HOST_NAME'];
+  // DNS A/AAAA record
+  hostName: string;
+  port?: number;
+}
+
+export interface PoolRelayMultipleHostName {
+  type: PoolRelayTypeType['MULTIPLE_HOST_NAME'];
+  // DNS SRV record
+  hostName: string;
+}
+
+export type PoolRelay =
+  | PoolRelaySingleHostIp
+  | PoolRelaySingleHostName
+  | PoolRelayMultipleHostName;
+
+export interface PoolParameters {
+  // pool id (hash of the operator's cold key), hex
+  operator: string;
+  vrfKeyHash: string;
+  pledge: string;
+  cost: string;
+  margin: { numerator: string; denominator: string };
+  // bech32 stake address
+  rewardAccount: string;
+  // staking key hashes, hex
+  owners: string[];
+  relays: PoolRelay[];
+  metadata?: { url: string; hash: string };
 }
 
 export interface CertificateStakePoolRegistration {
   type: CertificateTypeType['STAKE_POOL_REGISTRATION'];
-  pool_parameters: Record<string, unknown>;
+  pool_parameters: PoolParameters;
+  // re-registration of an already registered pool (update of its parameters), no deposit is paid
+  update?: boolean;
+}
+
+export interface CertificateStakePoolRetirement {
+  type: CertificateTypeType['STAKE_POOL_RETIREMENT'];
+  // pool id (hash of the operator's cold key), hex
+  pool: string;
+  epoch: number;
+}
+
+export interface Anchor {
+  url: string;
+  // hash of the document at the url, hex
+  hash: string;
+}
+
+// DRep credential is derived from the account key (CIP-105) unless one of the hashes is set
+export interface CertificateDRep {
+  type:
+    | CertificateTypeType['DREP_REGISTRATION']
+    | CertificateTypeType['DREP_DEREGISTRATION']
+    | CertificateTypeType['DREP_UPDATE'];
+  drepKeyHash?: string;
+  drepScriptHash?: string;
+  // CBOR of the native script witnessing the drepScriptHash, hex
+  nativeScript?: string;
+  // registration and update only
+  anchor?: Anchor;
+  // registration and retirement only, defaults to drepDeposit
+  deposit?: string;
 }
 
 export type Certificate =
   | CertificateStakeRegistration
   | CertificateStakeDelegation
-  | CertificateStakePoolRegistration;
+  | CertificateVoteDelegation
+  | CertificateStakeVoteDelegation
+  | CertificateStakePoolRegistration
+  | CertificateStakePoolRetirement
+  | CertificateDRep;
+
+export type SelectionAlgorithm =
+  | 'branch-and-bound'
+  | 'random-improve'
+  | 'random-improve-per-output'
+  | 'largest-first';
+
+export type SelectionObjective = 'fee' | 'inputs' | 'size';
+
+export interface SelectionStrategyContext {
+  // utxos which are not selected yet
+  utxos: Utxo[];
+  selectedUtxos: Utxo[];
+  outputs: UserOutput[];
+  // tokens required by the outputs which are not covered by selected utxos yet
+  unsatisfiedAssets: string[];
+}
+
+export interface SelectionStrategy {
+  // returns one of the context.utxos to be added to the selection, undefined if there is no utxo to add
+  selectNext: (context: SelectionStrategyContext) => Utxo | undefined;
+}
+
+// utxos are grouped by their address or stake key, selection combines as few groups as possible
+export type PrivacyPolicy = 'address' | 'stake-key';
+
+// named network or a custom one (eg. local devnet)
+export type CardanoNetwork =
+  | 'mainnet'
+  | 'testnet'
+  | 'preprod'
+  | 'preview'
+  | { protocolMagic: number; networkId: number };
+
+export type CardanoEra = 'alonzo' | 'babbage' | 'conway';
+
+export interface ProtocolParameters {
+  // linear fee coefficients, fee = minFeeA * tx size + minFeeB
+  minFeeA: string;
+  minFeeB: string;
+  poolDeposit: string;
+  keyDeposit: string;
+  coinsPerUtxoByte: string;
+  coinsPerUtxoWord: string;
+  maxTxSize: number;
+  maxValueSize: number;
+  // price per byte of reference scripts, may be a decimal ('15.5') or a fraction ('31/2')
+  minFeeRefScriptCostPerByte: string;
+  drepDeposit: string;
+  govActionDeposit: string;
+  era: CardanoEra;
+}
 
 export interface Options {
+  // deprecated, use protocolParameters.minFeeA
   feeParams?: { a: string };
+  protocolParameters?: Partial<ProtocolParameters>;
+  network?: CardanoNetwork;
   debug?: boolean;
   forceLargestFirstSelection?: boolean;
+  branchAndBoundMaxTries?: number;
+  seed?: number;
+  rng?: () => number;
+  randomImprovePerOutput?: boolean;
+  optimize?: {
+    objective?: SelectionObjective;
+    runs?: number;
+    algorithms?: SelectionAlgorithm[];
+  };
+  privacy?: PrivacyPolicy;
+  selectionStrategy?: SelectionStrategy;
   _maxTokensPerOutput?: number;
 }
 
+export type VoterTypeType = typeof VoterType;
+
+export type Voter =
+  | {
+      type: VoterTypeType['DREP_KEY_HASH'];
+      // DRep key derived from the account (CIP-105) if missing
+      hash?: string;
+    }
+  | {
+      type: VoterTypeType['CC_HOT_KEY_HASH'] | VoterTypeType['STAKE_POOL'];
+      // key hash of the CC hot key or pool id, hex
+      hash: string;
+    }
+  | {
+      type:
+        | VoterTypeType['CC_HOT_SCRIPT_HASH']
+        | VoterTypeType['DREP_SCRIPT_HASH'];
+      hash: string;
+      // CBOR of the native script witnessing the vote, hex
+      nativeScript?: string;
+    };
+
+export interface GovernanceActionId {
+  txHash: string;
+  index: number;
+}
+
+export interface Vote {
+  voter: Voter;
+  govActionId: GovernanceActionId;
+  vote: typeof VoteKind[keyof typeof VoteKind];
+  anchor?: Anchor;
+}
+
+export type GovernanceActionTypeType = typeof GovernanceActionType;
+
+export type GovernanceAction =
+  | {
+      type: GovernanceActionTypeType['PARAMETER_CHANGE'];
+      // CBOR of the protocol parameter update, hex
+      parameterUpdate: string;
+      // last enacted parameter change action
+      prevGovActionId?: GovernanceActionId;
+    }
+  | {
+      type: GovernanceActionTypeType['TREASURY_WITHDRAWALS'];
+      withdrawals: { stakeAddress: string; amount: string }[];
+    }
+  | {
+      type: GovernanceActionTypeType['INFO'];
+    };
+
+export interface Proposal {
+  action: GovernanceAction;
+  // bech32 stake address the deposit is returned to
+  returnAddress: string;
+  anchor: Anchor;
+}
+
 export interface CoinSelectionParams {
   utxos: Utxo[];
   outputs: UserOutput[];
   changeAddress: string;
   certificates: Certificate[];
   withdrawals: Withdrawal[];
+  // Conway voting procedures
+  votes?: Vote[];
+  // Conway governance action proposals
+  proposals?: Proposal[];
   accountPubKey: string;
   ttl?: number;
 }
+
+export interface ConsolidationParams {
+  utxos: Utxo[];
+  changeAddress: string;
+  ttl?: number;
+}
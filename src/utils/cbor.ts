@@ -0,0 +1,87 @@
+// Conway encodes sets as arrays tagged with 258, earlier eras don't accept the tag
+const SET_TAG = 258;
+
+const MAJOR_TAG = 6;
+const BREAK = 0xff;
+
+interface Header {
+  major: number;
+  // length for strings/arrays/maps, tag number for tags, null for indefinite length
+  argument: number | null;
+  // size of the header in bytes
+  size: number;
+}
+
+const readHeader = (bytes: Uint8Array, offset: number): Header => {
+  const initialByte = bytes[offset];
+  if (initialByte === undefined) throw new Error('Unexpected end of CBOR');
+  const major = initialByte >> 5;
+  const info = initialByte & 0x1f;
+  if (info < 24) return { major, argument: info, size: 1 };
+  if (info === 31) return { major, argument: null, size: 1 };
+  const argumentSize = 2 ** (info - 24);
+  if (argumentSize > 8) throw new Error('Invalid CBOR');
+  let argument = 0;
+  for (let i = 1; i <= argumentSize; i++) {
+    argument = argument * 256 + bytes[offset + i];
+  }
+  return { major, argument, size: 1 + argumentSize };
+};
+
+// Copies the CBOR item starting at offset to chunks (skipping set tags), returns offset of the next item
+const copyItem = (
+  bytes: Uint8Array,
+  offset: number,
+  chunks: Uint8Array[],
+): number => {
+  const { major, argument, size } = readHeader(bytes, offset);
+  const copy = (from: number, to: number) =>
+    chunks.push(bytes.subarray(from, to));
+
+  if (major === MAJOR_TAG && argument === SET_TAG) {
+    return copyItem(bytes, offset + size, chunks);
+  }
+  copy(offset, offset + size);
+  let next = offset + size;
+
+  const copyItems = (count: number | null) => {
+    for (let i = 0; count === null ? bytes[next] !== BREAK : i < count; i++) {
+      next = copyItem(bytes, next, chunks);
+    }
+    if (count === null) {
+      copy(next, next + 1);
+      next += 1;
+    }
+  };
+
+  switch (major) {
+    case 2:
+    case 3:
+      // byte/text string, indefinite length strings consist of definite chunks
+      if (argument === null) {
+        copyItems(null);
+      } else {
+        copy(next, next + argument);
+        next += argument;
+      }
+      break;
+    case 4:
+      copyItems(argument);
+      break;
+    case 5:
+      copyItems(argument === null ? null : argument * 2);
+      break;
+    case MAJOR_TAG:
+      copyItems(1);
+      break;
+    default:
+    // integers and simple values are fully contained in the header
+  }
+  return next;
+};
+
+export const stripSetTags = (bytes: Uint8Array): Uint8Array => {
+  const chunks: Uint8Array[] = [];
+  copyItem(bytes, 0, chunks);
+  return Buffer.concat(chunks);
+};
@@ -2,9 +2,16 @@ import * as CardanoWasm from '@emurgo/cardano-serialization-lib-browser';
 import {
   CARDANO_PARAMS,
   CertificateType,
-  DATA_COST_PER_UTXO_BYTE,
+  DRepType,
   ERROR,
+  GovernanceActionType,
   MAX_TOKENS_PER_OUTPUT,
+  PoolRelayType,
+  VoterType,
+  REF_SCRIPT_FEE_TIER_MULTIPLIER,
+  REF_SCRIPT_FEE_TIER_SIZE,
+  MAX_REF_SCRIPT_SIZE_PER_TX,
+  TX_SIZE_SOFT_LIMIT_RATIO,
 } from '../constants';
 import {
   Certificate,
@@ -15,29 +22,157 @@ import {
   UserOutput,
   Asset,
   ChangeOutput,
+  Options,
+  ProtocolParameters,
+  CardanoNetwork,
+  FeeBreakdown,
+  CertificateDRep,
+  CertificateStakeCredential,
+  Anchor,
+  DRep,
+  PoolParameters,
+  PoolRelay,
+  Vote,
+  Voter,
+  GovernanceAction,
+  GovernanceActionId,
+  Proposal,
 } from '../types/types';
+import { stripSetTags } from './cbor';
 import { CoinSelectionError } from './errors';
+import { RandomGenerator } from './random';
 
 export const bigNumFromStr = (num: string): CardanoWasm.BigNum =>
   CardanoWasm.BigNum.from_str(num);
 
+// Non-negative rational number, an integer ('15'), a decimal ('15.5') or a fraction ('31/2')
+export const rationalFromStr = (
+  num: string,
+): { numerator: CardanoWasm.BigNum; denominator: CardanoWasm.BigNum } => {
+  const [value, denominator = '1'] = num.split('/');
+  const [integer, decimals = ''] = value.split('.');
+  return {
+    numerator: bigNumFromStr(`${integer}${decimals}`),
+    denominator: bigNumFromStr(denominator).checked_mul(
+      bigNumFromStr(`1${'0'.repeat(decimals.length)}`),
+    ),
+  };
+};
+
+export const getProtocolParameters = (
+  options?: Options,
+): ProtocolParameters => {
+  const params = options?.protocolParameters;
+  return {
+    minFeeA:
+      params?.minFeeA ?? options?.feeParams?.a ?? CARDANO_PARAMS.MIN_FEE_A,
+    minFeeB: params?.minFeeB ?? CARDANO_PARAMS.MIN_FEE_B,
+    poolDeposit: params?.poolDeposit ?? CARDANO_PARAMS.POOL_DEPOSIT,
+    keyDeposit: params?.keyDeposit ?? CARDANO_PARAMS.KEY_DEPOSIT,
+    coinsPerUtxoByte:
+      params?.coinsPerUtxoByte ?? CARDANO_PARAMS.COINS_PER_UTXO_BYTE,
+    coinsPerUtxoWord:
+      params?.coinsPerUtxoWord ?? CARDANO_PARAMS.COINS_PER_UTXO_WORD,
+    maxTxSize: params?.maxTxSize ?? CARDANO_PARAMS.MAX_TX_SIZE,
+    maxValueSize: params?.maxValueSize ?? CARDANO_PARAMS.MAX_VALUE_SIZE,
+    minFeeRefScriptCostPerByte:
+      params?.minFeeRefScriptCostPerByte ??
+      CARDANO_PARAMS.MIN_FEE_REF_SCRIPT_COST_PER_BYTE,
+    drepDeposit: params?.drepDeposit ?? CARDANO_PARAMS.DREP_DEPOSIT,
+    govActionDeposit:
+      params?.govActionDeposit ?? CARDANO_PARAMS.GOV_ACTION_DEPOSIT,
+    era: params?.era ?? CARDANO_PARAMS.ERA,
+  };
+};
+
+// Alonzo min ADA is coinsPerUtxoWord * size of the utxo entry in 8-byte words,
+// see https://github.com/input-output-hk/cardano-ledger/blob/master/doc/explanations/min-utxo-alonzo.rst
+const getAlonzoMinAda = (
+  txOutput: CardanoWasm.TransactionOutput,
+  protocolParameters: ProtocolParameters,
+): CardanoWasm.BigNum => {
+  const utxoEntrySizeWithoutVal = 27;
+  let valueSize = 2; // ADA-only value
+  const multiAsset = txOutput.amount().multiasset();
+  if (multiAsset && multiAsset.len() > 0) {
+    const policies = multiAsset.keys();
+    const assetNames: string[] = [];
+    let numAssets = 0;
+    for (let i = 0; i < policies.len(); i++) {
+      const names = multiAsset.get(policies.get(i))?.keys();
+      for (let j = 0; j < (names?.len() ?? 0); j++) {
+        const name = Buffer.from(names?.get(j).name() ?? []).toString('hex');
+        if (!assetNames.includes(name)) assetNames.push(name);
+        numAssets++;
+      }
+    }
+    // only distinct asset names are counted
+    const assetNamesSize = assetNames.reduce(
+      (acc, name) => acc + name.length / 2,
+      0,
+    );
+    valueSize =
+      6 +
+      Math.ceil((numAssets * 12 + assetNamesSize + policies.len() * 28) / 8);
+  }
+  return bigNumFromStr(protocolParameters.coinsPerUtxoWord).checked_mul(
+    bigNumFromStr((utxoEntrySizeWithoutVal + valueSize).toString()),
+  );
+};
+
+export const getMinAda = (
+  txOutput: CardanoWasm.TransactionOutput,
+  protocolParameters: ProtocolParameters,
+): CardanoWasm.BigNum =>
+  protocolParameters.era === 'alonzo'
+    ? getAlonzoMinAda(txOutput, protocolParameters)
+    : CardanoWasm.min_ada_for_output(
+        txOutput,
+        CardanoWasm.DataCost.new_coins_per_byte(
+          bigNumFromStr(protocolParameters.coinsPerUtxoByte),
+        ),
+      );
+
+// boolean stands for the legacy `testnet` flag (true = testnet, false = mainnet)
 export const getProtocolMagic = (
-  tesnet?: boolean,
-):
-  | typeof CARDANO_PARAMS.PROTOCOL_MAGICS['mainnet']
-  | typeof CARDANO_PARAMS.PROTOCOL_MAGICS['testnet'] =>
-  tesnet
+  network?: CardanoNetwork | boolean,
+): number => {
+  if (typeof network === 'object') return network.protocolMagic;
+  if (typeof network === 'string') {
+    return CARDANO_PARAMS.PROTOCOL_MAGICS[network];
+  }
+  return network
     ? CARDANO_PARAMS.PROTOCOL_MAGICS.testnet
     : CARDANO_PARAMS.PROTOCOL_MAGICS.mainnet;
+};
 
-export const getNetworkId = (
-  testnet?: boolean,
-):
-  | typeof CARDANO_PARAMS.NETWORK_IDS['mainnet']
-  | typeof CARDANO_PARAMS.NETWORK_IDS['testnet'] =>
-  testnet
+export const getNetworkId = (network?: CardanoNetwork | boolean): number => {
+  if (typeof network === 'object') return network.networkId;
+  if (typeof network === 'string') return CARDANO_PARAMS.NETWORK_IDS[network];
+  return network
     ? CARDANO_PARAMS.NETWORK_IDS.testnet
     : CARDANO_PARAMS.NETWORK_IDS.mainnet;
+};
+
+export const validateAddressNetwork = (
+  address: string,
+  network: CardanoNetwork,
+): void => {
+  let isValid: boolean;
+  try {
+    // network id of byron addresses is derived from the protocol magic, compare the magic itself
+    isValid = CardanoWasm.ByronAddress.is_valid(address)
+      ? CardanoWasm.ByronAddress.from_base58(address).byron_protocol_magic() ===
+        getProtocolMagic(network)
+      : CardanoWasm.Address.from_bech32(address).network_id() ===
+        getNetworkId(network);
+  } catch (error) {
+    throw new CoinSelectionError(ERROR.INVALID_ADDRESS, { address });
+  }
+  if (!isValid) {
+    throw new CoinSelectionError(ERROR.ADDRESS_NETWORK_MISMATCH, { address });
+  }
+};
 
 export const parseAsset = (
   hex: string,
@@ -181,6 +316,7 @@ export const buildTxInput = (
 export const buildTxOutput = (
   output: Output,
   dummyAddress: string,
+  protocolParameters: ProtocolParameters,
 ): CardanoWasm.TransactionOutput => {
   // If output.address was not defined fallback to bech32 address (useful for "precompose" tx
   // which doesn't have all necessary data, but we can fill in the blanks and return some info such as fee)
@@ -204,10 +340,7 @@ export const buildTxOutput = (
 
   // Calculate min required ADA for the output
   let txOutput = CardanoWasm.TransactionOutput.new(outputAddr, outputValue);
-  const minAdaRequired = CardanoWasm.min_ada_for_output(
-    txOutput,
-    DATA_COST_PER_UTXO_BYTE,
-  );
+  const minAdaRequired = getMinAda(txOutput, protocolParameters);
 
   // If calculated min required ada is greater than current output value than adjust it
   if (outputAmount.compare(minAdaRequired) < 0) {
@@ -225,13 +358,11 @@ export const getOutputCost = (
   txBuilder: CardanoWasm.TransactionBuilder,
   output: Output,
   dummyAddress: string,
+  protocolParameters: ProtocolParameters,
 ): OutputCost => {
-  const txOutput = buildTxOutput(output, dummyAddress);
-  const outputFee = txBuilder.fee_for_output(txOutput);
-  const minAda = CardanoWasm.min_ada_for_output(
-    txOutput,
-    DATA_COST_PER_UTXO_BYTE,
-  );
+  const txOutput = buildTxOutput(output, dummyAddress, protocolParameters);
+  const outputFee = withMaxTxSize(() => txBuilder.fee_for_output(txOutput));
+  const minAda = getMinAda(txOutput, protocolParameters);
 
   return {
     output: txOutput,
@@ -240,48 +371,358 @@ export const getOutputCost = (
   };
 };
 
-export const prepareWithdrawals = (
-  withdrawals: Withdrawal[],
-): CardanoWasm.Withdrawals => {
-  const preparedWithdrawals = CardanoWasm.Withdrawals.new();
+// Script credentials are witnessed by the native script of the certificate or withdrawal
+const getNativeScriptSource = (
+  scriptHash: string,
+  nativeScript: string | undefined,
+): CardanoWasm.NativeScriptSource => {
+  const script = nativeScript
+    ? CardanoWasm.NativeScript.from_hex(nativeScript)
+    : undefined;
+  if (!script || script.hash().to_hex() !== scriptHash.toLowerCase()) {
+    throw new CoinSelectionError(ERROR.SCRIPT_WITNESS_MISSING);
+  }
+  return CardanoWasm.NativeScriptSource.new(script);
+};
 
-  withdrawals.forEach(withdrawal => {
+const parseRewardAddress = (
+  stakeAddress: string,
+): CardanoWasm.RewardAddress => {
+  try {
     const rewardAddress = CardanoWasm.RewardAddress.from_address(
-      CardanoWasm.Address.from_bech32(withdrawal.stakeAddress),
+      CardanoWasm.Address.from_bech32(stakeAddress),
     );
+    if (rewardAddress) return rewardAddress;
+  } catch (error) {
+    // not a bech32 address
+  }
+  throw new CoinSelectionError(ERROR.INVALID_REWARD_ADDRESS, {
+    address: stakeAddress,
+  });
+};
 
-    if (rewardAddress) {
-      preparedWithdrawals.insert(
+export const prepareWithdrawals = (
+  withdrawals: Withdrawal[],
+  accountKey: CardanoWasm.Bip32PublicKey,
+): CardanoWasm.WithdrawalsBuilder => {
+  const preparedWithdrawals = CardanoWasm.WithdrawalsBuilder.new();
+
+  withdrawals.forEach((withdrawal, index) => {
+    const rewardAddress = parseRewardAddress(withdrawal.stakeAddress);
+    if (
+      withdrawals.findIndex(w => w.stakeAddress === withdrawal.stakeAddress) !==
+      index
+    ) {
+      // withdrawals are a map, another withdrawal would replace the previous one
+      throw new CoinSelectionError(ERROR.DUPLICATE_WITHDRAWAL, {
+        address: withdrawal.stakeAddress,
+      });
+    }
+    if (
+      withdrawal.stakeKeyIndex !== undefined &&
+      rewardAddress.payment_cred().to_keyhash()?.to_hex() !==
+        getStakeKeyHash(accountKey, withdrawal.stakeKeyIndex).to_hex()
+    ) {
+      // the stake key of the account wouldn't be able to witness the withdrawal
+      throw new CoinSelectionError(ERROR.INVALID_REWARD_ADDRESS, {
+        address: withdrawal.stakeAddress,
+      });
+    }
+    const amount = bigNumFromStr(withdrawal.amount);
+    const scriptHash = rewardAddress.payment_cred().to_scripthash();
+    if (scriptHash && !withdrawal.nativeScript) {
+      // Plutus script would need a redeemer and collateral which are not composed
+      throw new CoinSelectionError(ERROR.UNSUPPORTED_PLUTUS_SCRIPT, {
+        address: withdrawal.stakeAddress,
+      });
+    }
+    if (scriptHash) {
+      preparedWithdrawals.add_with_native_script(
         rewardAddress,
-        bigNumFromStr(withdrawal.amount),
+        amount,
+        getNativeScriptSource(scriptHash.to_hex(), withdrawal.nativeScript),
       );
+    } else {
+      preparedWithdrawals.add(rewardAddress, amount);
     }
   });
 
   return preparedWithdrawals;
 };
 
+// Any failure while converting a field of the pool parameters is reported with the name of the field
+const parsePoolField = <T>(field: string, parse: () => T): T => {
+  try {
+    return parse();
+  } catch (error) {
+    throw new CoinSelectionError(ERROR.INVALID_POOL_PARAMETERS, { field });
+  }
+};
+
+const parseIpv4 = (address: string): Uint8Array => {
+  const parts = address.split('.');
+  if (
+    parts.length !== 4 ||
+    parts.some(part => !/^\d{1,3}$/.test(part) || Number(part) > 255)
+  ) {
+    throw new Error(`Invalid IPv4 address ${address}`);
+  }
+  return Uint8Array.from(parts.map(Number));
+};
+
+const parseIpv6 = (address: string): Uint8Array => {
+  // '::' stands for one or more groups of zeros
+  const halves = address.split('::').map(half => (half ? half.split(':') : []));
+  if (
+    halves.length > 2 ||
+    (halves.length === 2 && halves[0].length + halves[1].length > 7)
+  ) {
+    throw new Error(`Invalid IPv6 address ${address}`);
+  }
+  const groups =
+    halves.length === 2
+      ? [
+          ...halves[0],
+          ...Array(8 - halves[0].length - halves[1].length).fill('0'),
+          ...halves[1],
+        ]
+      : halves[0];
+  if (
+    groups.length !== 8 ||
+    groups.some(group => !/^[0-9a-f]{1,4}$/i.test(group))
+  ) {
+    throw new Error(`Invalid IPv6 address ${address}`);
+  }
+  const bytes = Buffer.from(
+    groups.map(group => group.padStart(4, '0')).join(''),
+    'hex',
+  );
+  // ledger serializes the address as 4 little-endian 32-bit words
+  return Uint8Array.from(
+    [0, 4, 8, 12].flatMap(offset =>
+      [...bytes.subarray(offset, offset + 4)].reverse(),
+    ),
+  );
+};
+
+const prepareRelay = (relay: PoolRelay): CardanoWasm.Relay => {
+  switch (relay.type) {
+    case PoolRelayType.SINGLE_HOST_IP:
+      if (!relay.ipv4Address && !relay.ipv6Address) {
+        throw new Error('Relay without an IP address');
+      }
+      return CardanoWasm.Relay.new_single_host_addr(
+        CardanoWasm.SingleHostAddr.new(
+          relay.port,
+          relay.ipv4Address
+            ? CardanoWasm.Ipv4.new(parseIpv4(relay.ipv4Address))
+            : undefined,
+          relay.ipv6Address
+            ? CardanoWasm.Ipv6.new(parseIpv6(relay.ipv6Address))
+            : undefined,
+        ),
+      );
+    case PoolRelayType.SINGLE_HOST_NAME:
+      return CardanoWasm.Relay.new_single_host_name(
+        CardanoWasm.SingleHostName.new(
+          relay.port,
+          CardanoWasm.DNSRecordAorAAAA.new(relay.hostName),
+        ),
+      );
+    case PoolRelayType.MULTIPLE_HOST_NAME:
+      return CardanoWasm.Relay.new_multi_host_name(
+        CardanoWasm.MultiHostName.new(
+          CardanoWasm.DNSRecordSRV.new(relay.hostName),
+        ),
+      );
+    default:
+      throw new Error('Unknown relay type');
+  }
+};
+
+export const preparePoolParams = (
+  params: PoolParameters,
+): CardanoWasm.PoolParams => {
+  const { margin, metadata } = params;
+  const owners = CardanoWasm.Ed25519KeyHashes.new();
+  parsePoolField('owners', () =>
+    params.owners.forEach(owner =>
+      owners.add(CardanoWasm.Ed25519KeyHash.from_hex(owner)),
+    ),
+  );
+  const relays = CardanoWasm.Relays.new();
+  parsePoolField('relays', () =>
+    params.relays.forEach(relay => relays.add(prepareRelay(relay))),
+  );
+
+  return CardanoWasm.PoolParams.new(
+    parsePoolField('operator', () =>
+      CardanoWasm.Ed25519KeyHash.from_hex(params.operator),
+    ),
+    parsePoolField('vrfKeyHash', () =>
+      CardanoWasm.VRFKeyHash.from_hex(params.vrfKeyHash),
+    ),
+    parsePoolField('pledge', () => bigNumFromStr(params.pledge)),
+    parsePoolField('cost', () => bigNumFromStr(params.cost)),
+    parsePoolField('margin', () => {
+      const numerator = bigNumFromStr(margin.numerator);
+      const denominator = bigNumFromStr(margin.denominator);
+      // margin is a unit interval
+      if (denominator.is_zero() || numerator.compare(denominator) > 0) {
+        throw new Error('Margin out of range');
+      }
+      return CardanoWasm.UnitInterval.new(numerator, denominator);
+    }),
+    parsePoolField('rewardAccount', () => {
+      const rewardAddress = CardanoWasm.RewardAddress.from_address(
+        CardanoWasm.Address.from_bech32(params.rewardAccount),
+      );
+      if (!rewardAddress) throw new Error('Not a reward address');
+      return rewardAddress;
+    }),
+    owners,
+    relays,
+    metadata
+      ? parsePoolField('metadata', () =>
+          CardanoWasm.PoolMetadata.new(
+            CardanoWasm.URL.new(metadata.url),
+            CardanoWasm.PoolMetadataHash.from_hex(metadata.hash),
+          ),
+        )
+      : undefined,
+  );
+};
+
+export const getStakeKeyHash = (
+  accountKey: CardanoWasm.Bip32PublicKey,
+  stakeKeyIndex = 0,
+): CardanoWasm.Ed25519KeyHash =>
+  accountKey.derive(2).derive(stakeKeyIndex).to_raw_key().hash();
+
+const getStakeCredential = (
+  cert: CertificateStakeCredential,
+  accountKey: CardanoWasm.Bip32PublicKey,
+): CardanoWasm.Credential => {
+  if (cert.stakingScriptHash) {
+    return CardanoWasm.Credential.from_scripthash(
+      CardanoWasm.ScriptHash.from_hex(cert.stakingScriptHash),
+    );
+  }
+  if (cert.stakingKeyHash) {
+    return CardanoWasm.Credential.from_keyhash(
+      CardanoWasm.Ed25519KeyHash.from_hex(cert.stakingKeyHash),
+    );
+  }
+  return CardanoWasm.Credential.from_keyhash(
+    getStakeKeyHash(accountKey, cert.stakeKeyIndex),
+  );
+};
+
+// CIP-105 DRep key m/1852'/1815'/account'/3/0
+const getDRepKeyHash = (
+  accountKey: CardanoWasm.Bip32PublicKey,
+): CardanoWasm.Ed25519KeyHash =>
+  accountKey.derive(3).derive(0).to_raw_key().hash();
+
+const getDRepCredential = (
+  cert: CertificateDRep,
+  accountKey: CardanoWasm.Bip32PublicKey,
+): CardanoWasm.Credential => {
+  if (cert.drepScriptHash) {
+    return CardanoWasm.Credential.from_scripthash(
+      CardanoWasm.ScriptHash.from_hex(cert.drepScriptHash),
+    );
+  }
+  return CardanoWasm.Credential.from_keyhash(
+    cert.drepKeyHash
+      ? CardanoWasm.Ed25519KeyHash.from_hex(cert.drepKeyHash)
+      : getDRepKeyHash(accountKey),
+  );
+};
+
+const prepareAnchor = (anchor: Anchor): CardanoWasm.Anchor =>
+  CardanoWasm.Anchor.new(
+    CardanoWasm.URL.new(anchor.url),
+    CardanoWasm.AnchorDataHash.from_hex(anchor.hash),
+  );
+
+const prepareDRep = (drep: DRep): CardanoWasm.DRep => {
+  switch (drep.type) {
+    case DRepType.KEY_HASH:
+      return CardanoWasm.DRep.new_key_hash(
+        CardanoWasm.Ed25519KeyHash.from_hex(drep.keyHash),
+      );
+    case DRepType.SCRIPT_HASH:
+      return CardanoWasm.DRep.new_script_hash(
+        CardanoWasm.ScriptHash.from_hex(drep.scriptHash),
+      );
+    case DRepType.ALWAYS_ABSTAIN:
+      return CardanoWasm.DRep.new_always_abstain();
+    default:
+      return CardanoWasm.DRep.new_always_no_confidence();
+  }
+};
+
 export const prepareCertificates = (
   certificates: Certificate[],
   accountKey: CardanoWasm.Bip32PublicKey,
-): CardanoWasm.Certificates => {
-  const preparedCertificates = CardanoWasm.Certificates.new();
+  protocolParameters: ProtocolParameters,
+): CardanoWasm.CertificatesBuilder => {
+  const preparedCertificates = CardanoWasm.CertificatesBuilder.new();
   if (certificates.length === 0) return preparedCertificates;
 
-  const stakeKey = accountKey.derive(2).derive(0);
-  const stakeCred = CardanoWasm.StakeCredential.from_keyhash(
-    stakeKey.to_raw_key().hash(),
-  );
+  // Conway certificates state the deposit explicitly
+  const isConway = protocolParameters.era === 'conway';
+
+  const addCertificate = (
+    certificate: CardanoWasm.Certificate,
+    scriptHash: string | undefined,
+    nativeScript: string | undefined,
+  ) => {
+    if (scriptHash) {
+      preparedCertificates.add_with_native_script(
+        certificate,
+        getNativeScriptSource(scriptHash, nativeScript),
+      );
+    } else {
+      preparedCertificates.add(certificate);
+    }
+  };
+
+  const addStakeCertificate = (
+    cert: CertificateStakeCredential,
+    prepareCertificate: (
+      stakeCred: CardanoWasm.Credential,
+    ) => CardanoWasm.Certificate,
+  ) =>
+    addCertificate(
+      prepareCertificate(getStakeCredential(cert, accountKey)),
+      cert.stakingScriptHash,
+      cert.nativeScript,
+    );
 
   certificates.forEach(cert => {
-    if (cert.type === CertificateType.STAKE_REGISTRATION) {
+    const deposit = getCertificateDeposit(cert, protocolParameters);
+    if (cert.type === CertificateType.STAKE_REGISTRATION && !isConway) {
+      // the only certificate which doesn't need a witness of the credential
       preparedCertificates.add(
         CardanoWasm.Certificate.new_stake_registration(
-          CardanoWasm.StakeRegistration.new(stakeCred),
+          CardanoWasm.StakeRegistration.new(
+            getStakeCredential(cert, accountKey),
+          ),
+        ),
+      );
+    } else if (cert.type === CertificateType.STAKE_REGISTRATION) {
+      addStakeCertificate(cert, stakeCred =>
+        CardanoWasm.Certificate.new_stake_registration(
+          CardanoWasm.StakeRegistration.new_with_explicit_deposit(
+            stakeCred,
+            deposit,
+          ),
         ),
       );
     } else if (cert.type === CertificateType.STAKE_DELEGATION) {
-      preparedCertificates.add(
+      addStakeCertificate(cert, stakeCred =>
         CardanoWasm.Certificate.new_stake_delegation(
           CardanoWasm.StakeDelegation.new(
             stakeCred,
@@ -292,41 +733,413 @@ export const prepareCertificates = (
         ),
       );
     } else if (cert.type === CertificateType.STAKE_DEREGISTRATION) {
-      preparedCertificates.add(
+      addStakeCertificate(cert, stakeCred =>
         CardanoWasm.Certificate.new_stake_deregistration(
-          CardanoWasm.StakeDeregistration.new(stakeCred),
+          isConway
+            ? CardanoWasm.StakeDeregistration.new_with_explicit_refund(
+                stakeCred,
+                deposit,
+              )
+            : CardanoWasm.StakeDeregistration.new(stakeCred),
+        ),
+      );
+    } else if (cert.type === CertificateType.STAKE_POOL_REGISTRATION) {
+      preparedCertificates.add(
+        CardanoWasm.Certificate.new_pool_registration(
+          CardanoWasm.PoolRegistration.new(
+            preparePoolParams(cert.pool_parameters),
+          ),
         ),
       );
+    } else if (cert.type === CertificateType.STAKE_POOL_RETIREMENT) {
+      preparedCertificates.add(
+        CardanoWasm.Certificate.new_pool_retirement(
+          CardanoWasm.PoolRetirement.new(
+            CardanoWasm.Ed25519KeyHash.from_hex(cert.pool),
+            cert.epoch,
+          ),
+        ),
+      );
+    } else if (isConway && cert.type === CertificateType.VOTE_DELEGATION) {
+      addStakeCertificate(cert, stakeCred =>
+        CardanoWasm.Certificate.new_vote_delegation(
+          CardanoWasm.VoteDelegation.new(stakeCred, prepareDRep(cert.drep)),
+        ),
+      );
+    } else if (
+      isConway &&
+      cert.type === CertificateType.STAKE_VOTE_DELEGATION
+    ) {
+      addStakeCertificate(cert, stakeCred =>
+        CardanoWasm.Certificate.new_stake_and_vote_delegation(
+          CardanoWasm.StakeAndVoteDelegation.new(
+            stakeCred,
+            CardanoWasm.Ed25519KeyHash.from_hex(cert.pool),
+            prepareDRep(cert.drep),
+          ),
+        ),
+      );
+    } else if (
+      isConway &&
+      cert.type === CertificateType.STAKE_REGISTRATION_DELEGATION
+    ) {
+      addStakeCertificate(cert, stakeCred =>
+        CardanoWasm.Certificate.new_stake_registration_and_delegation(
+          CardanoWasm.StakeRegistrationAndDelegation.new(
+            stakeCred,
+            CardanoWasm.Ed25519KeyHash.from_hex(cert.pool),
+            deposit,
+          ),
+        ),
+      );
+    } else if (
+      isConway &&
+      cert.type === CertificateType.VOTE_REGISTRATION_DELEGATION
+    ) {
+      addStakeCertificate(cert, stakeCred =>
+        CardanoWasm.Certificate.new_vote_registration_and_delegation(
+          CardanoWasm.VoteRegistrationAndDelegation.new(
+            stakeCred,
+            prepareDRep(cert.drep),
+            deposit,
+          ),
+        ),
+      );
+    } else if (
+      isConway &&
+      cert.type === CertificateType.STAKE_VOTE_REGISTRATION_DELEGATION
+    ) {
+      addStakeCertificate(cert, stakeCred =>
+        CardanoWasm.Certificate.new_stake_vote_registration_and_delegation(
+          CardanoWasm.StakeVoteRegistrationAndDelegation.new(
+            stakeCred,
+            CardanoWasm.Ed25519KeyHash.from_hex(cert.pool),
+            prepareDRep(cert.drep),
+            deposit,
+          ),
+        ),
+      );
+    } else if (isConway && cert.type === CertificateType.DREP_REGISTRATION) {
+      const drepCred = getDRepCredential(cert, accountKey);
+      addCertificate(
+        CardanoWasm.Certificate.new_drep_registration(
+          cert.anchor
+            ? CardanoWasm.DRepRegistration.new_with_anchor(
+                drepCred,
+                deposit,
+                prepareAnchor(cert.anchor),
+              )
+            : CardanoWasm.DRepRegistration.new(drepCred, deposit),
+        ),
+        cert.drepScriptHash,
+        cert.nativeScript,
+      );
+    } else if (isConway && cert.type === CertificateType.DREP_DEREGISTRATION) {
+      addCertificate(
+        CardanoWasm.Certificate.new_drep_deregistration(
+          CardanoWasm.DRepDeregistration.new(
+            getDRepCredential(cert, accountKey),
+            deposit,
+          ),
+        ),
+        cert.drepScriptHash,
+        cert.nativeScript,
+      );
+    } else if (isConway && cert.type === CertificateType.DREP_UPDATE) {
+      const drepCred = getDRepCredential(cert, accountKey);
+      addCertificate(
+        CardanoWasm.Certificate.new_drep_update(
+          cert.anchor
+            ? CardanoWasm.DRepUpdate.new_with_anchor(
+                drepCred,
+                prepareAnchor(cert.anchor),
+              )
+            : CardanoWasm.DRepUpdate.new(drepCred),
+        ),
+        cert.drepScriptHash,
+        cert.nativeScript,
+      );
     } else {
+      // also vote delegation and DRep certificates before Conway
       throw new CoinSelectionError(ERROR.UNSUPPORTED_CERTIFICATE_TYPE);
     }
   });
   return preparedCertificates;
 };
 
+const prepareVoter = (
+  voter: Voter,
+  accountKey: CardanoWasm.Bip32PublicKey,
+): CardanoWasm.Voter => {
+  switch (voter.type) {
+    case VoterType.CC_HOT_KEY_HASH:
+      return CardanoWasm.Voter.new_constitutional_committee_hot_credential(
+        CardanoWasm.Credential.from_keyhash(
+          CardanoWasm.Ed25519KeyHash.from_hex(voter.hash),
+        ),
+      );
+    case VoterType.CC_HOT_SCRIPT_HASH:
+      return CardanoWasm.Voter.new_constitutional_committee_hot_credential(
+        CardanoWasm.Credential.from_scripthash(
+          CardanoWasm.ScriptHash.from_hex(voter.hash),
+        ),
+      );
+    case VoterType.DREP_KEY_HASH:
+      return CardanoWasm.Voter.new_drep_credential(
+        CardanoWasm.Credential.from_keyhash(
+          voter.hash
+            ? CardanoWasm.Ed25519KeyHash.from_hex(voter.hash)
+            : getDRepKeyHash(accountKey),
+        ),
+      );
+    case VoterType.DREP_SCRIPT_HASH:
+      return CardanoWasm.Voter.new_drep_credential(
+        CardanoWasm.Credential.from_scripthash(
+          CardanoWasm.ScriptHash.from_hex(voter.hash),
+        ),
+      );
+    default:
+      return CardanoWasm.Voter.new_stake_pool_key_hash(
+        CardanoWasm.Ed25519KeyHash.from_hex(voter.hash),
+      );
+  }
+};
+
+const prepareGovernanceActionId = (
+  govActionId: GovernanceActionId,
+): CardanoWasm.GovernanceActionId =>
+  CardanoWasm.GovernanceActionId.new(
+    CardanoWasm.TransactionHash.from_hex(govActionId.txHash),
+    govActionId.index,
+  );
+
+export const prepareVotes = (
+  votes: Vote[],
+  accountKey: CardanoWasm.Bip32PublicKey,
+  protocolParameters: ProtocolParameters,
+): CardanoWasm.VotingBuilder => {
+  const preparedVotes = CardanoWasm.VotingBuilder.new();
+  if (votes.length === 0) return preparedVotes;
+  if (protocolParameters.era !== 'conway') {
+    throw new CoinSelectionError(ERROR.UNSUPPORTED_ERA);
+  }
+
+  votes.forEach(vote => {
+    const voter = prepareVoter(vote.voter, accountKey);
+    const govActionId = prepareGovernanceActionId(vote.govActionId);
+    const votingProcedure = vote.anchor
+      ? CardanoWasm.VotingProcedure.new_with_anchor(
+          vote.vote,
+          prepareAnchor(vote.anchor),
+        )
+      : CardanoWasm.VotingProcedure.new(vote.vote);
+    if (
+      vote.voter.type === VoterType.CC_HOT_SCRIPT_HASH ||
+      vote.voter.type === VoterType.DREP_SCRIPT_HASH
+    ) {
+      preparedVotes.add_with_native_script(
+        voter,
+        govActionId,
+        votingProcedure,
+        getNativeScriptSource(vote.voter.hash, vote.voter.nativeScript),
+      );
+    } else {
+      preparedVotes.add(voter, govActionId, votingProcedure);
+    }
+  });
+  return preparedVotes;
+};
+
+const prepareGovernanceAction = (
+  action: GovernanceAction,
+): CardanoWasm.GovernanceAction => {
+  switch (action.type) {
+    case GovernanceActionType.PARAMETER_CHANGE: {
+      const parameterUpdate = CardanoWasm.ProtocolParamUpdate.from_hex(
+        action.parameterUpdate,
+      );
+      return CardanoWasm.GovernanceAction.new_parameter_change_action(
+        action.prevGovActionId
+          ? CardanoWasm.ParameterChangeAction.new_with_action_id(
+              prepareGovernanceActionId(action.prevGovActionId),
+              parameterUpdate,
+            )
+          : CardanoWasm.ParameterChangeAction.new(parameterUpdate),
+      );
+    }
+    case GovernanceActionType.TREASURY_WITHDRAWALS: {
+      const treasuryWithdrawals = CardanoWasm.TreasuryWithdrawals.new();
+      action.withdrawals.forEach(withdrawal =>
+        treasuryWithdrawals.insert(
+          parseRewardAddress(withdrawal.stakeAddress),
+          bigNumFromStr(withdrawal.amount),
+        ),
+      );
+      return CardanoWasm.GovernanceAction.new_treasury_withdrawals_action(
+        CardanoWasm.TreasuryWithdrawalsAction.new(treasuryWithdrawals),
+      );
+    }
+    case GovernanceActionType.INFO:
+      return CardanoWasm.GovernanceAction.new_info_action(
+        CardanoWasm.InfoAction.new(),
+      );
+    default:
+      throw new CoinSelectionError(ERROR.UNSUPPORTED_GOVERNANCE_ACTION);
+  }
+};
+
+export const prepareProposals = (
+  proposals: Proposal[],
+  protocolParameters: ProtocolParameters,
+): CardanoWasm.VotingProposalBuilder => {
+  const preparedProposals = CardanoWasm.VotingProposalBuilder.new();
+  if (proposals.length === 0) return preparedProposals;
+  if (protocolParameters.era !== 'conway') {
+    throw new CoinSelectionError(ERROR.UNSUPPORTED_ERA);
+  }
+
+  proposals.forEach(proposal => {
+    preparedProposals.add(
+      CardanoWasm.VotingProposal.new(
+        prepareGovernanceAction(proposal.action),
+        prepareAnchor(proposal.anchor),
+        parseRewardAddress(proposal.returnAddress),
+        bigNumFromStr(protocolParameters.govActionDeposit),
+      ),
+    );
+  });
+  return preparedProposals;
+};
+
+// governance action deposit is returned to the return address once the action is enacted or expires
+export const calculateProposalDeposit = (
+  proposals: Proposal[],
+  protocolParameters: ProtocolParameters,
+): number => proposals.length * Number(protocolParameters.govActionDeposit);
+
+const getDepositParameter = (
+  cert: Certificate,
+  protocolParameters: ProtocolParameters,
+): string | null => {
+  switch (cert.type) {
+    case CertificateType.STAKE_REGISTRATION:
+    case CertificateType.STAKE_DEREGISTRATION:
+    case CertificateType.STAKE_REGISTRATION_DELEGATION:
+    case CertificateType.VOTE_REGISTRATION_DELEGATION:
+    case CertificateType.STAKE_VOTE_REGISTRATION_DELEGATION:
+      return protocolParameters.keyDeposit;
+    case CertificateType.STAKE_POOL_REGISTRATION:
+      // the deposit of a registered pool was paid by its first registration
+      return cert.update ? null : protocolParameters.poolDeposit;
+    case CertificateType.DREP_REGISTRATION:
+    case CertificateType.DREP_DEREGISTRATION:
+      return protocolParameters.drepDeposit;
+    default:
+      // pool deposit is returned to the reward account at the retirement epoch, not in the tx
+      return null;
+  }
+};
+
+// Deposit paid by a registration or refunded by a deregistration certificate,
+// the deposit stated by the certificate takes precedence over protocol parameters
+export const getCertificateDeposit = (
+  cert: Certificate,
+  protocolParameters: ProtocolParameters,
+): CardanoWasm.BigNum => {
+  const depositParameter = getDepositParameter(cert, protocolParameters);
+  if ('deposit' in cert && cert.deposit !== undefined) {
+    const invalidDeposit = () =>
+      new CoinSelectionError(ERROR.INVALID_CERTIFICATE_DEPOSIT, {
+        deposit: cert.deposit,
+      });
+    if (depositParameter === null || !/^\d+$/.test(cert.deposit)) {
+      throw invalidDeposit();
+    }
+    const deposit = bigNumFromStr(cert.deposit);
+    if (
+      protocolParameters.era !== 'conway' &&
+      (cert.type === CertificateType.STAKE_REGISTRATION ||
+        cert.type === CertificateType.STAKE_DEREGISTRATION) &&
+      deposit.compare(bigNumFromStr(depositParameter)) !== 0
+    ) {
+      // legacy certificates don't state the deposit, the ledger always uses keyDeposit
+      throw invalidDeposit();
+    }
+    return deposit;
+  }
+  return bigNumFromStr(depositParameter ?? '0');
+};
+
+// Stake or DRep credential the deposit belongs to, a key of the account if there is no hash
+const getDepositCredential = (cert: Certificate): string | null => {
+  switch (cert.type) {
+    case CertificateType.STAKE_REGISTRATION:
+    case CertificateType.STAKE_DEREGISTRATION:
+    case CertificateType.STAKE_REGISTRATION_DELEGATION:
+    case CertificateType.VOTE_REGISTRATION_DELEGATION:
+    case CertificateType.STAKE_VOTE_REGISTRATION_DELEGATION:
+      return `stake:${
+        cert.stakingScriptHash ??
+        cert.stakingKeyHash ??
+        `account/${cert.stakeKeyIndex ?? 0}`
+      }`;
+    case CertificateType.DREP_REGISTRATION:
+    case CertificateType.DREP_DEREGISTRATION:
+      return `drep:${cert.drepScriptHash ?? cert.drepKeyHash ?? ''}`;
+    default:
+      return null;
+  }
+};
+
 export const calculateRequiredDeposit = (
   certificates: Certificate[],
+  protocolParameters: ProtocolParameters,
 ): number => {
-  const CertificateDeposit = {
-    [CertificateType.STAKE_DELEGATION]: 0,
-    [CertificateType.STAKE_POOL_REGISTRATION]: 500000000,
-    [CertificateType.STAKE_REGISTRATION]: 2000000,
-    [CertificateType.STAKE_DEREGISTRATION]: -2000000,
-  } as const;
-  return certificates.reduce(
-    (acc, cert) => (acc += CertificateDeposit[cert.type]),
-    0,
-  );
+  // Deposits paid by registrations within the tx, a deregistration of the same credential has to refund them.
+  // Deposits of credentials registered by earlier transactions are not known here.
+  const paidDeposits = new Map<string, CardanoWasm.BigNum>();
+  let paid = bigNumFromStr('0');
+  let refunded = bigNumFromStr('0');
+  certificates.forEach(cert => {
+    const deposit = getCertificateDeposit(cert, protocolParameters);
+    const credential = getDepositCredential(cert);
+    if (
+      cert.type === CertificateType.STAKE_DEREGISTRATION ||
+      cert.type === CertificateType.DREP_DEREGISTRATION
+    ) {
+      const paidDeposit = credential ? paidDeposits.get(credential) : undefined;
+      if (paidDeposit !== undefined && paidDeposit.compare(deposit) !== 0) {
+        throw new CoinSelectionError(ERROR.DEPOSIT_REFUND_MISMATCH, {
+          deposit: deposit.to_str(),
+        });
+      }
+      if (credential) paidDeposits.delete(credential);
+      refunded = refunded.checked_add(deposit);
+    } else {
+      if (credential) paidDeposits.set(credential, deposit);
+      paid = paid.checked_add(deposit);
+    }
+  });
+  // negative if refunds prevail
+  return paid.compare(refunded) >= 0
+    ? Number(paid.clamped_sub(refunded).to_str())
+    : -Number(refunded.clamped_sub(paid).to_str());
 };
 
 export const setMinUtxoValueForOutputs = (
   txBuilder: CardanoWasm.TransactionBuilder,
   outputs: UserOutput[],
   dummyAddress: string,
+  protocolParameters: ProtocolParameters,
 ): UserOutput[] => {
   const preparedOutputs = outputs.map(output => {
     // sets minimal output ADA amount in case of multi-asset output
-    const { minOutputAmount } = getOutputCost(txBuilder, output, dummyAddress);
+    const { minOutputAmount } = getOutputCost(
+      txBuilder,
+      output,
+      dummyAddress,
+      protocolParameters,
+    );
     const outputAmount = bigNumFromStr(output.amount || '0');
 
     let amount: string | undefined;
@@ -372,6 +1185,7 @@ export const splitChangeOutput = (
   txBuilder: CardanoWasm.TransactionBuilder,
   singleChangeOutput: OutputCost,
   changeAddress: string,
+  protocolParameters: ProtocolParameters,
   maxTokensPerOutput = MAX_TOKENS_PER_OUTPUT,
 ): OutputCost[] => {
   // TODO: https://github.com/Emurgo/cardano-serialization-lib/pull/236
@@ -406,10 +1220,7 @@ export const splitChangeOutput = (
       outputValue,
     );
 
-    const minAdaRequired = CardanoWasm.min_ada_for_output(
-      txOutput,
-      DATA_COST_PER_UTXO_BYTE,
-    );
+    const minAdaRequired = getMinAda(txOutput, protocolParameters);
 
     changeOutputs.push({
       isChange: true,
@@ -424,6 +1235,7 @@ export const splitChangeOutput = (
       txBuilder,
       partialChange,
       changeAddress,
+      protocolParameters,
     );
     lovelaceAvailable = lovelaceAvailable.clamped_sub(
       bigNumFromStr(partialChange.amount).checked_add(
@@ -443,7 +1255,12 @@ export const splitChangeOutput = (
         changeOutputAmount = changeOutputCost.minOutputAmount;
       }
       partialChange.amount = changeOutputAmount.to_str();
-      changeOutputCost = getOutputCost(txBuilder, partialChange, changeAddress);
+      changeOutputCost = getOutputCost(
+        txBuilder,
+        partialChange,
+        changeAddress,
+        protocolParameters,
+      );
     }
     return changeOutputCost;
   });
@@ -459,7 +1276,9 @@ export const prepareChangeOutput = (
   utxosTotalAmount: CardanoWasm.BigNum,
   totalOutputAmount: CardanoWasm.BigNum,
   totalFeesAmount: CardanoWasm.BigNum,
-  pickAdditionalUtxo?: () => ReturnType<typeof getRandomUtxo>,
+  protocolParameters: ProtocolParameters,
+  // adds another utxo to the tx, returns it along with the new min fee of the tx
+  addAdditionalUtxo?: () => { utxo: Utxo; minFee: CardanoWasm.BigNum } | null,
 ): OutputCost | null => {
   // change output amount should be lowered by the cost of the change output (fee + minUtxoVal)
   // The cost will be subtracted once we calculate it.
@@ -495,6 +1314,7 @@ export const prepareChangeOutput = (
       assets: changeOutputAssets,
     },
     changeAddress,
+    protocolParameters,
   );
 
   // calculate change output amount as utxosTotalAmount - totalOutputAmount - totalFeesAmount - change output fee
@@ -512,24 +1332,25 @@ export const prepareChangeOutput = (
   ) {
     isChangeOutputNeeded = true;
   } else if (
-    pickAdditionalUtxo &&
+    addAdditionalUtxo &&
     changeOutputAmount.compare(bigNumFromStr('5000')) >= 0
   ) {
     // change amount is above our constant (0.005 ADA), but still less than required minUtxoValue
     // try to add another utxo recalculate change again
-    const utxo = pickAdditionalUtxo();
-    if (utxo) {
-      utxo.addUtxo();
-      const newTotalFee = txBuilder.min_fee();
+    const additional = addAdditionalUtxo();
+    if (additional) {
       return prepareChangeOutput(
         txBuilder,
         usedUtxos,
         preparedOutputs,
         changeAddress,
-        getUtxoQuantity(usedUtxos, 'lovelace'),
+        utxosTotalAmount.checked_add(
+          bigNumFromStr(getAssetAmount(additional.utxo)),
+        ),
         totalOutputAmount,
-        newTotalFee,
-        pickAdditionalUtxo,
+        additional.minFee,
+        protocolParameters,
+        addAdditionalUtxo,
       );
     }
   }
@@ -549,6 +1370,7 @@ export const prepareChangeOutput = (
         assets: changeOutputAssets,
       },
       changeAddress,
+      protocolParameters,
     );
 
     // WARNING: It returns a change output also in a case where we don't have enough utxos to cover the output cost, but the change output is needed because it contains additional assets
@@ -562,20 +1384,214 @@ export const prepareChangeOutput = (
   return null;
 };
 
-export const getTxBuilder = (a = '44'): CardanoWasm.TransactionBuilder =>
+// reference scripts are charged and limited since Conway
+export const getReferenceScriptSize = (utxos: Utxo[]): number =>
+  utxos.reduce((acc, utxo) => acc + (utxo.referenceScriptSize ?? 0), 0);
+
+export const calculateReferenceScriptFee = (
+  utxos: Utxo[],
+  protocolParameters: ProtocolParameters,
+): CardanoWasm.BigNum => {
+  const multiplier = {
+    numerator: bigNumFromStr(
+      REF_SCRIPT_FEE_TIER_MULTIPLIER.numerator.toString(),
+    ),
+    denominator: bigNumFromStr(
+      REF_SCRIPT_FEE_TIER_MULTIPLIER.denominator.toString(),
+    ),
+  };
+  let remainingSize = getReferenceScriptSize(utxos);
+  // Price of the current tier is pricePerByte / denominator (the base price may be a fraction). The fee is
+  // accumulated with the same denominator so the sum is rounded down only once (same as in the ledger).
+  const price = rationalFromStr(protocolParameters.minFeeRefScriptCostPerByte);
+  let pricePerByte = price.numerator;
+  let { denominator } = price;
+  let fee = bigNumFromStr('0');
+  while (remainingSize > 0) {
+    const tierSize = Math.min(remainingSize, REF_SCRIPT_FEE_TIER_SIZE);
+    fee = fee.checked_add(
+      pricePerByte.checked_mul(bigNumFromStr(tierSize.toString())),
+    );
+    remainingSize -= tierSize;
+    if (remainingSize > 0) {
+      fee = fee.checked_mul(multiplier.denominator);
+      pricePerByte = pricePerByte.checked_mul(multiplier.numerator);
+      denominator = denominator.checked_mul(multiplier.denominator);
+    }
+  }
+  return fee.div_floor(denominator);
+};
+
+// CSL encodes sets with the Conway tag (3 bytes) also in the tx it estimates the fee and size for (min_fee,
+// fee_for_input, full_size). Before Conway the tags are not part of the tx (see serializeTxBody), this is their
+// size to be excluded from the estimates.
+export const getSetTagsSize = (
+  usedUtxos: Utxo[],
+  certificates: Certificate[],
+  withdrawals: Withdrawal[],
+  protocolParameters: ProtocolParameters,
+): number => {
+  if (protocolParameters.era === 'conway') return 0;
+  // stake registration is the only certificate without a witness before Conway
+  const isScriptWitness = [
+    ...certificates
+      .filter(cert => cert.type !== CertificateType.STAKE_REGISTRATION)
+      .map(cert => 'stakingScriptHash' in cert && !!cert.stakingScriptHash),
+    ...withdrawals.map(
+      withdrawal =>
+        !!parseRewardAddress(withdrawal.stakeAddress)
+          .payment_cred()
+          .to_scripthash(),
+    ),
+  ];
+  const sets = [
+    // inputs are encoded even if there are none
+    true,
+    certificates.length > 0,
+    // vkey witnesses
+    usedUtxos.length > 0 || isScriptWitness.includes(false),
+    // native script witnesses
+    isScriptWitness.includes(true),
+  ].filter(Boolean).length;
+  const poolOwnersSets = certificates.filter(
+    cert => cert.type === CertificateType.STAKE_POOL_REGISTRATION,
+  ).length;
+  return (sets + poolOwnersSets) * 3;
+};
+
+// min_fee of the tx builder doesn't include the reference script fee of the inputs
+export const getMinFee = (
+  txBuilder: CardanoWasm.TransactionBuilder,
+  usedUtxos: Utxo[],
+  certificates: Certificate[],
+  withdrawals: Withdrawal[],
+  protocolParameters: ProtocolParameters,
+): CardanoWasm.BigNum =>
+  withMaxTxSize(() => txBuilder.min_fee())
+    .clamped_sub(
+      bigNumFromStr(protocolParameters.minFeeA).checked_mul(
+        bigNumFromStr(
+          getSetTagsSize(
+            usedUtxos,
+            certificates,
+            withdrawals,
+            protocolParameters,
+          ).toString(),
+        ),
+      ),
+    )
+    .checked_add(calculateReferenceScriptFee(usedUtxos, protocolParameters));
+
+export const getFeeBreakdown = (
+  fee: CardanoWasm.BigNum,
+  usedUtxos: Utxo[],
+  protocolParameters: ProtocolParameters,
+): FeeBreakdown => {
+  const referenceScriptFee = calculateReferenceScriptFee(
+    usedUtxos,
+    protocolParameters,
+  );
+  return {
+    txFee: fee.clamped_sub(referenceScriptFee).to_str(),
+    referenceScriptFee: referenceScriptFee.to_str(),
+  };
+};
+
+export const serializeTxBody = (
+  txBody: CardanoWasm.TransactionBody,
+  protocolParameters: ProtocolParameters,
+): { body: string; hash: string } => {
+  // CSL always encodes sets with the Conway tag
+  const bytes =
+    protocolParameters.era === 'conway'
+      ? txBody.to_bytes()
+      : stripSetTags(txBody.to_bytes());
+  // hash of the body as encoded above, not as re-encoded by CSL
+  const hash = CardanoWasm.FixedTransactionBody.from_bytes(bytes).tx_hash();
+  return {
+    body: Buffer.from(bytes).toString('hex'),
+    hash: Buffer.from(hash.to_bytes()).toString('hex'),
+  };
+};
+
+export const getTxBuilder = (
+  protocolParameters: ProtocolParameters,
+): CardanoWasm.TransactionBuilder =>
   CardanoWasm.TransactionBuilder.new(
     CardanoWasm.TransactionBuilderConfigBuilder.new()
       .fee_algo(
-        CardanoWasm.LinearFee.new(bigNumFromStr(a), bigNumFromStr('155381')),
+        CardanoWasm.LinearFee.new(
+          bigNumFromStr(protocolParameters.minFeeA),
+          bigNumFromStr(protocolParameters.minFeeB),
+        ),
       )
-      .pool_deposit(bigNumFromStr('500000000'))
-      .key_deposit(bigNumFromStr('2000000'))
-      .coins_per_utxo_byte(bigNumFromStr(CARDANO_PARAMS.COINS_PER_UTXO_BYTE))
-      .max_value_size(CARDANO_PARAMS.MAX_VALUE_SIZE)
-      .max_tx_size(CARDANO_PARAMS.MAX_TX_SIZE)
+      .pool_deposit(bigNumFromStr(protocolParameters.poolDeposit))
+      .key_deposit(bigNumFromStr(protocolParameters.keyDeposit))
+      .coins_per_utxo_byte(bigNumFromStr(protocolParameters.coinsPerUtxoByte))
+      .max_value_size(protocolParameters.maxValueSize)
+      .max_tx_size(protocolParameters.maxTxSize)
       .build(),
   );
 
+// CSL refuses to estimate the fee of (or build) a tx over max_tx_size of the tx builder
+export const withMaxTxSize = <T>(estimate: () => T): T => {
+  try {
+    return estimate();
+  } catch (error) {
+    const match =
+      /^Maximum transaction size of \d+ exceeded\. Found: (\d+)$/.exec(
+        String(error),
+      );
+    if (match) {
+      throw new CoinSelectionError(ERROR.TX_TOO_BIG, {
+        txSize: Number(match[1]),
+      });
+    }
+    throw error;
+  }
+};
+
+// Size of the tx min_fee is estimated for (with the largest possible fee), the builder is left untouched.
+// It can't be derived if the fee doesn't depend on the size, CSL still enforces the max tx size in that case.
+export const getTxSize = (
+  txBuilder: CardanoWasm.TransactionBuilder,
+  protocolParameters: ProtocolParameters,
+  pendingOutputs: CardanoWasm.TransactionOutput[] = [],
+): number | undefined => {
+  const minFee = withMaxTxSize(() => txBuilder.min_fee());
+  const minFeeA = bigNumFromStr(protocolParameters.minFeeA);
+  if (minFeeA.is_zero()) return undefined;
+  const size = Number(
+    minFee
+      .clamped_sub(bigNumFromStr(protocolParameters.minFeeB))
+      .div_floor(minFeeA)
+      .to_str(),
+  );
+  // outputs which are not yet added to the tx builder
+  return pendingOutputs.reduce(
+    (acc, output) => acc + output.to_bytes().length,
+    size,
+  );
+};
+
+export const assertTxSize = (
+  txSize: number,
+  protocolParameters: ProtocolParameters,
+): void => {
+  if (txSize > protocolParameters.maxTxSize) {
+    throw new CoinSelectionError(ERROR.TX_TOO_BIG, { txSize });
+  }
+};
+
+export const assertReferenceScriptSize = (utxos: Utxo[]): void => {
+  const referenceScriptSize = getReferenceScriptSize(utxos);
+  if (referenceScriptSize > MAX_REF_SCRIPT_SIZE_PER_TX) {
+    throw new CoinSelectionError(ERROR.REF_SCRIPTS_TOO_BIG, {
+      referenceScriptSize,
+    });
+  }
+};
+
 export const getUnsatisfiedAssets = (
   selectedUtxos: Utxo[],
   outputs: Output[],
@@ -635,6 +1651,7 @@ export const getInitialUtxoSet = (
 export const setMaxOutput = (
   maxOutput: UserOutput,
   changeOutput: OutputCost | null,
+  protocolParameters: ProtocolParameters,
 ): {
   maxOutput: UserOutput;
 } => {
@@ -660,10 +1677,7 @@ export const setMaxOutput = (
           changeOutput.output.address(),
           CardanoWasm.Value.new(newMaxAmount), // TODO: 0 before
         );
-        const minUtxoVal = CardanoWasm.min_ada_for_output(
-          txOutput,
-          DATA_COST_PER_UTXO_BYTE,
-        );
+        const minUtxoVal = getMinAda(txOutput, protocolParameters);
 
         if (newMaxAmount.compare(minUtxoVal) < 0) {
           // the amount would be less than min required ADA
@@ -689,10 +1703,7 @@ export const setMaxOutput = (
       );
 
       // adjust ADA amount to cover min ada for the asset
-      maxOutput.amount = CardanoWasm.min_ada_for_output(
-        txOutput,
-        DATA_COST_PER_UTXO_BYTE,
-      ).to_str();
+      maxOutput.amount = getMinAda(txOutput, protocolParameters).to_str();
     }
   }
 
@@ -715,16 +1726,44 @@ export const filterUtxos = (utxos: Utxo[], asset: string): Utxo[] => {
   return utxos.filter(utxo => utxo.amount.find(a => a.unit === asset));
 };
 
+export const pickUtxo = (
+  txBuilder: CardanoWasm.TransactionBuilder,
+  utxos: Utxo[],
+  rng: RandomGenerator,
+  protocolParameters: ProtocolParameters,
+  asset = 'lovelace',
+): Utxo | undefined => {
+  if (utxos.length === 0) return undefined;
+
+  // throws if the tx is already too big, there is no point in adding more inputs
+  const txSize = getTxSize(txBuilder, protocolParameters);
+  if (
+    txSize !== undefined &&
+    txSize > protocolParameters.maxTxSize * TX_SIZE_SOFT_LIMIT_RATIO
+  ) {
+    // close to the limit, prefer the largest utxo to fit into the tx with fewer inputs
+    return utxos.reduce((largest, utxo) =>
+      bigNumFromStr(getAssetAmount(utxo, asset)).compare(
+        bigNumFromStr(getAssetAmount(largest, asset)),
+      ) > 0
+        ? utxo
+        : largest,
+    );
+  }
+  return utxos[Math.floor(rng() * utxos.length)];
+};
+
 export const getRandomUtxo = (
   txBuilder: CardanoWasm.TransactionBuilder,
   utxoRemaining: Utxo[],
   utxoSelected: Utxo[],
+  rng: RandomGenerator,
+  protocolParameters: ProtocolParameters,
 ): {
   utxo: Utxo;
   addUtxo: () => void;
 } | null => {
-  const index = Math.floor(Math.random() * utxoRemaining.length);
-  const utxo = utxoRemaining[index];
+  const utxo = pickUtxo(txBuilder, utxoRemaining, rng, protocolParameters);
 
   if (!utxo) return null;
   return {
@@ -732,7 +1771,7 @@ export const getRandomUtxo = (
     addUtxo: () => {
       utxoSelected.push(utxo);
       const { input, address, amount } = buildTxInput(utxo);
-      txBuilder.add_input(address, input, amount);
+      txBuilder.add_regular_input(address, input, amount);
       utxoRemaining.splice(utxoRemaining.indexOf(utxo), 1);
     },
   };
@@ -742,10 +1781,11 @@ export const calculateUserOutputsFee = (
   txBuilder: CardanoWasm.TransactionBuilder,
   userOutputs: UserOutput[],
   changeAddress: string,
+  protocolParameters: ProtocolParameters,
 ) => {
   // Calculate fee and minUtxoValue for all external outputs
   const outputsCost = userOutputs.map(output =>
-    getOutputCost(txBuilder, output, changeAddress),
+    getOutputCost(txBuilder, output, changeAddress, protocolParameters),
   );
 
   const totalOutputsFee = outputsCost.reduce(
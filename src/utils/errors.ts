@@ -3,13 +3,31 @@ import { ERROR } from '../constants';
 type ErrorTypeKeys = keyof typeof ERROR;
 type ErrorObjectType = typeof ERROR[ErrorTypeKeys];
 
+export interface CoinSelectionErrorDetails {
+  // size of the transaction composed by the selection (TX_TOO_BIG)
+  txSize?: number;
+  // total size of reference scripts of the inputs (REF_SCRIPTS_TOO_BIG)
+  referenceScriptSize?: number;
+  // name of the invalid field (INVALID_PROTOCOL_PARAMETERS, INVALID_POOL_PARAMETERS)
+  field?: string;
+  // malformed address (INVALID_ADDRESS), address from another network (ADDRESS_NETWORK_MISMATCH) an invalid/duplicate reward address (INVALID_REWARD_ADDRESS, DUPLICATE_WITHDRAWAL) or a Plutus script reward address (UNSUPPORTED_PLUTUS_SCRIPT)
+  address?: string;
+  // deposit or refund of the certificate (INVALID_CERTIFICATE_DEPOSIT, DEPOSIT_REFUND_MISMATCH)
+  deposit?: string;
+}
+
 export class CoinSelectionError extends Error {
   code: ErrorObjectType['code'];
-  constructor(errorObject: ErrorObjectType) {
+  details?: CoinSelectionErrorDetails;
+  constructor(
+    errorObject: ErrorObjectType,
+    details?: CoinSelectionErrorDetails,
+  ) {
     super(errorObject.message);
     this.name = 'CoinSelectionError';
     this.code = errorObject.code;
     this.message = errorObject.message;
+    this.details = details;
     Object.setPrototypeOf(this, CoinSelectionError.prototype);
   }
 }
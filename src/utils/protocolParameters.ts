@@ -0,0 +1,193 @@
+import { ERROR } from '../constants';
+import { CardanoEra, ProtocolParameters } from '../types/types';
+import { CoinSelectionError } from './errors';
+
+type ProtocolParametersJson = Record<string, unknown>;
+
+const invalidField = (field?: string) =>
+  new CoinSelectionError(ERROR.INVALID_PROTOCOL_PARAMETERS, { field });
+
+const asObject = (json: unknown): ProtocolParametersJson => {
+  if (typeof json !== 'object' || json === null || Array.isArray(json)) {
+    throw invalidField();
+  }
+  return json as ProtocolParametersJson;
+};
+
+// Non-negative integer, either a JSON number or a numeric string (lovelace amounts may be strings)
+const parseQuantity = (json: ProtocolParametersJson, field: string): string => {
+  const value = json[field];
+  if (typeof value === 'number' && Number.isSafeInteger(value) && value >= 0) {
+    return value.toString();
+  }
+  if (typeof value === 'string' && /^\d+$/.test(value)) {
+    return value.replace(/^0+(?=\d)/, '');
+  }
+  throw invalidField(field);
+};
+
+// Non-negative rational, a JSON number or a numeric string with decimals ('15.0') or a fraction ('31/2').
+// Decimals are normalized ('15.0' -> '15'), fractions are kept as they are.
+const parseRational = (json: ProtocolParametersJson, field: string): string => {
+  const value = json[field];
+  const str =
+    typeof value === 'number' && Number.isFinite(value) && value >= 0
+      ? value.toString()
+      : value;
+  if (typeof str === 'string' && /^\d+\.\d+$/.test(str)) {
+    return str.replace(/^0+(?=\d)/, '').replace(/\.?0+$/, '');
+  }
+  if (typeof str === 'string' && /^\d+\/0*[1-9]\d*$/.test(str)) {
+    return str;
+  }
+  return parseQuantity({ [field]: str }, field);
+};
+
+const parseSize = (json: ProtocolParametersJson, field: string): number => {
+  const size = Number(parseQuantity(json, field));
+  if (!Number.isSafeInteger(size)) throw invalidField(field);
+  return size;
+};
+
+const hasField = (json: ProtocolParametersJson, field: string): boolean =>
+  json[field] !== undefined && json[field] !== null;
+
+// Before Babbage min ADA was defined per 8-byte word
+const parseCoinsPerUtxoByte = (
+  json: ProtocolParametersJson,
+  byteField: string,
+  wordField: string,
+): string => {
+  if (hasField(json, byteField)) {
+    return parseQuantity(json, byteField);
+  }
+  if (hasField(json, wordField)) {
+    return Math.floor(parseSize(json, wordField) / 8).toString();
+  }
+  throw invalidField(byteField);
+};
+
+// Alonzo min ADA is defined per 8-byte word, since Babbage the word price is derived from the byte price
+const parseCoinsPerUtxoWord = (
+  json: ProtocolParametersJson,
+  byteField: string,
+  wordField: string,
+): string =>
+  hasField(json, byteField)
+    ? (Number(parseQuantity(json, byteField)) * 8).toString()
+    : parseQuantity(json, wordField);
+
+// Alonzo is protocol version 5-6, Babbage 7-8, Conway 9+.
+// Without the version the era is guessed by the fields introduced in Babbage and Conway.
+const parseEra = (
+  json: ProtocolParametersJson,
+  major: unknown,
+  byteField: string,
+  refScriptField: string,
+): CardanoEra => {
+  if (typeof major === 'number') {
+    if (major >= 9) return 'conway';
+    return major >= 7 ? 'babbage' : 'alonzo';
+  }
+  if (hasField(json, refScriptField)) return 'conway';
+  return hasField(json, byteField) ? 'babbage' : 'alonzo';
+};
+
+// Reference script fee, DRep and governance action deposits were introduced in Conway, there are no such costs in earlier eras
+const parseConwayQuantity = (
+  json: ProtocolParametersJson,
+  field: string,
+  parse = parseQuantity,
+): string => (hasField(json, field) ? parse(json, field) : '0');
+
+// `cardano-cli query protocol-parameters` output
+export const parseCardanoCliProtocolParameters = (
+  json: unknown,
+): ProtocolParameters => {
+  const params = asObject(json);
+  return {
+    minFeeA: parseQuantity(params, 'txFeePerByte'),
+    minFeeB: parseQuantity(params, 'txFeeFixed'),
+    poolDeposit: parseQuantity(params, 'stakePoolDeposit'),
+    keyDeposit: parseQuantity(params, 'stakeAddressDeposit'),
+    coinsPerUtxoByte: parseCoinsPerUtxoByte(
+      params,
+      'utxoCostPerByte',
+      'utxoCostPerWord',
+    ),
+    coinsPerUtxoWord: parseCoinsPerUtxoWord(
+      params,
+      'utxoCostPerByte',
+      'utxoCostPerWord',
+    ),
+    maxTxSize: parseSize(params, 'maxTxSize'),
+    maxValueSize: parseSize(params, 'maxValueSize'),
+    minFeeRefScriptCostPerByte: parseConwayQuantity(
+      params,
+      'minFeeRefScriptCostPerByte',
+      parseRational,
+    ),
+    drepDeposit: parseConwayQuantity(params, 'dRepDeposit'),
+    govActionDeposit: parseConwayQuantity(params, 'govActionDeposit'),
+    era: parseEra(
+      params,
+      asObject(params.protocolVersion ?? {}).major,
+      'utxoCostPerByte',
+      'minFeeRefScriptCostPerByte',
+    ),
+  };
+};
+
+// Blockfrost `/epochs/latest/parameters` response
+export const parseBlockfrostProtocolParameters = (
+  json: unknown,
+): ProtocolParameters => {
+  const params = asObject(json);
+  return {
+    minFeeA: parseQuantity(params, 'min_fee_a'),
+    minFeeB: parseQuantity(params, 'min_fee_b'),
+    poolDeposit: parseQuantity(params, 'pool_deposit'),
+    keyDeposit: parseQuantity(params, 'key_deposit'),
+    coinsPerUtxoByte: parseCoinsPerUtxoByte(
+      params,
+      'coins_per_utxo_size',
+      'coins_per_utxo_word',
+    ),
+    coinsPerUtxoWord: parseCoinsPerUtxoWord(
+      params,
+      'coins_per_utxo_size',
+      'coins_per_utxo_word',
+    ),
+    maxTxSize: parseSize(params, 'max_tx_size'),
+    maxValueSize: parseSize(params, 'max_val_size'),
+    minFeeRefScriptCostPerByte: parseConwayQuantity(
+      params,
+      'min_fee_ref_script_cost_per_byte',
+      parseRational,
+    ),
+    drepDeposit: parseConwayQuantity(params, 'drep_deposit'),
+    govActionDeposit: parseConwayQuantity(params, 'gov_action_deposit'),
+    era: parseEra(
+      params,
+      params.protocol_major_ver,
+      'coins_per_utxo_size',
+      'min_fee_ref_script_cost_per_byte',
+    ),
+  };
+};
+
+// Koios `epoch_params` response, params of the latest epoch are used if the response contains more epochs
+export const parseKoiosProtocolParameters = (
+  json: unknown,
+): ProtocolParameters => {
+  const epochs = Array.isArray(json) ? json.map(asObject) : [asObject(json)];
+  if (epochs.length === 0) throw invalidField();
+  const latest = epochs.reduce((acc, epoch) =>
+    Number(epoch.epoch_no) > Number(acc.epoch_no) ? epoch : acc,
+  );
+  // field names and units match Blockfrost except for the protocol version
+  return parseBlockfrostProtocolParameters({
+    ...latest,
+    protocol_major_ver: latest.protocol_major,
+  });
+};
@@ -0,0 +1,29 @@
+import { Options } from '../types/types';
+
+export type RandomGenerator = () => number;
+
+// mulberry32, small and fast PRNG, good enough for picking utxos
+export const createRandomGenerator = (seed: number): RandomGenerator => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const generateSeed = (): number =>
+  Math.floor(Math.random() * 4294967296);
+
+export const getRandomGenerator = (
+  options?: Pick<Options, 'seed' | 'rng'>,
+): { rng: RandomGenerator; seed?: number } => {
+  if (options?.rng) {
+    // custom generator, we are not able to tell the seed unless it was passed too
+    return { rng: options.rng, seed: options.seed };
+  }
+  const seed = options?.seed ?? generateSeed();
+  return { rng: createRandomGenerator(seed), seed };
+};
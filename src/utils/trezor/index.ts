@@ -1,5 +1,6 @@
 import {
   transformToTokenBundle,
+  transformToTrezorCertificates,
   transformToTrezorInputs,
   transformToTrezorOutputs,
 } from './transformations';
@@ -7,6 +8,7 @@ import { signTransaction } from './sign';
 
 export {
   transformToTokenBundle,
+  transformToTrezorCertificates,
   transformToTrezorInputs,
   transformToTrezorOutputs,
   signTransaction,
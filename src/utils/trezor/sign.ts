@@ -3,17 +3,18 @@ import {
   CardanoSignedTxWitness,
   CardanoTxWitnessType,
 } from '../../types/trezor';
+import { CardanoNetwork } from '../../types/types';
+import { stripSetTags } from '../cbor';
 import { getProtocolMagic } from '../common';
 
 export const signTransaction = (
   txBodyHex: string,
   // txMetadata: CardanoWasm.AuxiliaryData,
   signedWitnesses: CardanoSignedTxWitness[],
-  options?: { testnet?: boolean },
+  // network takes precedence over the legacy testnet flag
+  options?: { testnet?: boolean; network?: CardanoNetwork },
 ): string => {
-  const txBody = CardanoWasm.TransactionBody.from_bytes(
-    Uint8Array.from(Buffer.from(txBodyHex, 'hex')),
-  );
+  const txBodyBytes = Uint8Array.from(Buffer.from(txBodyHex, 'hex'));
   const witnesses = CardanoWasm.TransactionWitnessSet.new();
   const vkeyWitnesses = CardanoWasm.Vkeywitnesses.new();
   const bootstrapWitnesses = CardanoWasm.BootstrapWitnesses.new();
@@ -39,7 +40,7 @@ export const signTransaction = (
         );
         const byronAddress = CardanoWasm.ByronAddress.icarus_from_key(
           bip32Key,
-          getProtocolMagic(!!options?.testnet),
+          getProtocolMagic(options?.network ?? !!options?.testnet),
         );
         const bootstrapWitness = CardanoWasm.BootstrapWitness.new(
           vKey,
@@ -59,7 +60,13 @@ export const signTransaction = (
     witnesses.set_vkeys(vkeyWitnesses);
   }
 
-  const transaction = CardanoWasm.Transaction.new(txBody, witnesses);
+  // Body is kept as it is (re-encoding would change the hash), witnesses follow its encoding of sets
+  const isConwayBody = stripSetTags(txBodyBytes).length !== txBodyBytes.length;
+  const transaction = CardanoWasm.FixedTransaction.new(
+    txBodyBytes,
+    isConwayBody ? witnesses.to_bytes() : stripSetTags(witnesses.to_bytes()),
+    true,
+  );
   const serializedTx = Buffer.from(transaction.to_bytes()).toString('hex');
   return serializedTx;
 };
@@ -1,10 +1,31 @@
+import * as CardanoWasm from '@emurgo/cardano-serialization-lib-browser';
+import { CertificateType, ERROR } from '../../constants';
 import {
   CardanoAddressParameters,
+  CardanoCertificate,
+  CardanoCertificateType,
+  CardanoDRep,
   CardanoInput,
   CardanoOutput,
+  CardanoPoolParameters,
 } from '../../types/trezor';
-import { Asset, FinalOutput, Utxo } from '../../types/types';
-import { parseAsset } from '../common';
+import {
+  Asset,
+  Certificate,
+  CertificateStakeCredential,
+  DRep,
+  FinalOutput,
+  Options,
+  PoolParameters,
+  Utxo,
+} from '../../types/types';
+import {
+  getCertificateDeposit,
+  getProtocolParameters,
+  getStakeKeyHash,
+  parseAsset,
+} from '../common';
+import { CoinSelectionError } from '../errors';
 
 interface AssetInPolicy {
   assetNameBytes: string;
@@ -92,3 +113,119 @@ export const transformToTrezorOutputs = (
     };
   });
 };
+
+// Trezor signs pool registration as an owner, exactly one owner has to be
+// the stake key of the account given by its path, other owners by the key hash
+const transformToTrezorPoolParameters = (
+  params: PoolParameters,
+  stakingPath: string | number[],
+  accountPubKey?: string,
+): CardanoPoolParameters => {
+  const stakeKeyHash = accountPubKey
+    ? getStakeKeyHash(
+        CardanoWasm.Bip32PublicKey.from_bytes(
+          Buffer.from(accountPubKey, 'hex'),
+        ),
+      ).to_hex()
+    : undefined;
+  return {
+    poolId: params.operator,
+    vrfKeyHash: params.vrfKeyHash,
+    pledge: params.pledge,
+    cost: params.cost,
+    margin: params.margin,
+    rewardAccount: params.rewardAccount,
+    owners: params.owners.map(owner =>
+      owner === stakeKeyHash
+        ? { stakingKeyPath: stakingPath }
+        : { stakingKeyHash: owner },
+    ),
+    // relay types match
+    relays: params.relays.map(relay => ({ ...relay })),
+    metadata: params.metadata,
+  };
+};
+
+// staking path of the account unless the certificate targets another credential
+const transformToTrezorStakeCredential = (
+  cert: CertificateStakeCredential,
+  stakingPath: string | number[],
+): Pick<CardanoCertificate, 'path' | 'scriptHash' | 'keyHash'> => {
+  if (cert.stakingScriptHash) return { scriptHash: cert.stakingScriptHash };
+  if (cert.stakingKeyHash) return { keyHash: cert.stakingKeyHash };
+  if (cert.stakeKeyIndex === undefined) return { path: stakingPath };
+  // stakingPath of the first stake key m/1852'/1815'/account'/2/0, replace the last index
+  return {
+    path:
+      typeof stakingPath === 'string'
+        ? stakingPath.replace(/\d+$/, `${cert.stakeKeyIndex}`)
+        : [...stakingPath.slice(0, -1), cert.stakeKeyIndex],
+  };
+};
+
+// DRep types match
+const transformToTrezorDRep = (drep: DRep): CardanoDRep => ({ ...drep });
+
+// options (protocol parameters) have to match the ones used by the coin selection,
+// Conway stake (de)registration states the deposit.
+// accountPubKey identifies the account's own pool owner (stake pool registration)
+export const transformToTrezorCertificates = (
+  certificates: Certificate[],
+  stakingPath: string | number[],
+  options?: Options,
+  accountPubKey?: string,
+): CardanoCertificate[] => {
+  const protocolParameters = getProtocolParameters(options);
+  const isConway = protocolParameters.era === 'conway';
+  return certificates.map(cert => {
+    switch (cert.type) {
+      case CertificateType.STAKE_REGISTRATION:
+        return isConway
+          ? {
+              type: CardanoCertificateType.STAKE_REGISTRATION_CONWAY,
+              ...transformToTrezorStakeCredential(cert, stakingPath),
+              deposit: getCertificateDeposit(cert, protocolParameters).to_str(),
+            }
+          : {
+              type: CardanoCertificateType.STAKE_REGISTRATION,
+              ...transformToTrezorStakeCredential(cert, stakingPath),
+            };
+      case CertificateType.STAKE_DEREGISTRATION:
+        return isConway
+          ? {
+              type: CardanoCertificateType.STAKE_DEREGISTRATION_CONWAY,
+              ...transformToTrezorStakeCredential(cert, stakingPath),
+              deposit: getCertificateDeposit(cert, protocolParameters).to_str(),
+            }
+          : {
+              type: CardanoCertificateType.STAKE_DEREGISTRATION,
+              ...transformToTrezorStakeCredential(cert, stakingPath),
+            };
+      case CertificateType.STAKE_DELEGATION:
+        return {
+          type: CardanoCertificateType.STAKE_DELEGATION,
+          ...transformToTrezorStakeCredential(cert, stakingPath),
+          pool: cert.pool,
+        };
+      case CertificateType.STAKE_POOL_REGISTRATION:
+        return {
+          type: CardanoCertificateType.STAKE_POOL_REGISTRATION,
+          poolParameters: transformToTrezorPoolParameters(
+            cert.pool_parameters,
+            stakingPath,
+            accountPubKey,
+          ),
+        };
+      case CertificateType.VOTE_DELEGATION:
+        return {
+          type: CardanoCertificateType.VOTE_DELEGATION,
+          ...transformToTrezorStakeCredential(cert, stakingPath),
+          dRep: transformToTrezorDRep(cert.drep),
+        };
+      default:
+        // pool retirement is witnessed by the pool's cold key which is not on the device,
+        // combined registration/delegation and DRep certificates are not supported by Trezor
+        throw new CoinSelectionError(ERROR.UNSUPPORTED_CERTIFICATE_TYPE);
+    }
+  });
+};
@@ -1,4 +1,4 @@
-import { Utxo } from '../../src/types/types';
+import { PoolParameters, Utxo } from '../../src/types/types';
 
 export const prepareUtxo = (utxo: Utxo, update: Partial<Utxo>): Utxo => {
   return {
@@ -130,3 +130,43 @@ export const utxo8 = Object.freeze({
     ],
   }),
 });
+
+// utxos with ~1 ADA each, each one has a unique txHash
+export const prepareDustUtxos = (count: number): Utxo[] =>
+  [...Array(count).keys()].map(i =>
+    prepareUtxo(utxo1, {
+      txHash: `${i.toString(16).padStart(4, '0')}${utxo1.txHash.slice(4)}`,
+      amount: [
+        {
+          quantity: `${1000000 + i}`,
+          unit: 'lovelace',
+        },
+      ],
+    }),
+  );
+
+// owned by the staking key of the test account
+export const poolParameters: PoolParameters = Object.freeze({
+  operator: 'fb52d3055a3a3a3238ce219a3fc13fe4d8797d5062e8dd4670c7d29b',
+  vrfKeyHash:
+    '8dd154228946bd12967c12bedb1cb6038b78f8b84a1760b1a788fa72a4af3db0',
+  pledge: '500000000',
+  cost: '340000000',
+  margin: { numerator: '1', denominator: '100' },
+  rewardAccount: 'stake1u8yk3dcuj8yylwvnzz953yups6mmuvt0vtjmxl2gmgceqjqz2yfd2',
+  owners: ['fb52d3055a3a3a3238ce219a3fc13fe4d8797d5062e8dd4670c7d29b'],
+  relays: [
+    {
+      type: 0,
+      ipv4Address: '192.168.0.1',
+      ipv6Address: '2001:db8::1',
+      port: 3001,
+    },
+    { type: 1, hostName: 'relay.example.com', port: 3001 },
+    { type: 2, hostName: 'example.com' },
+  ],
+  metadata: {
+    url: 'https://example.com/pool.json',
+    hash: '8dd154228946bd12967c12bedb1cb6038b78f8b84a1760b1a788fa72a4af3db0',
+  },
+});
@@ -0,0 +1,146 @@
+import { Certificate } from '../../src/types/types';
+import {
+  changeAddress,
+  poolParameters,
+  prepareUtxo,
+  utxo1,
+  utxo2,
+  utxo3,
+  utxo4,
+  utxo5,
+} from './constants';
+
+const accountPubKey =
+  'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07';
+
+export const coinSelection = [
+  {
+    description: 'Branch-and-bound runs first, exact match without change',
+    utxos: [utxo1, utxo2, utxo3, utxo4, utxo5],
+    outputs: [
+      {
+        address:
+          'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+        amount: '4800000',
+        assets: [],
+        setMax: false,
+      },
+    ],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [],
+    accountPubKey,
+    options: { seed: 1 },
+    result: {
+      type: 'final',
+      totalSpent: '5000000',
+      fee: '200000',
+      inputs: [utxo1],
+      outputs: [
+        {
+          address:
+            'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+          amount: '4800000',
+          assets: [],
+          setMax: false,
+        },
+      ],
+    },
+  },
+  {
+    description:
+      'Random-improve when the branch-and-bound search budget runs out',
+    utxos: [utxo1, utxo3, utxo4, utxo5],
+    outputs: [
+      {
+        address:
+          'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+        amount: '2500000',
+        assets: [],
+        setMax: false,
+      },
+    ],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [],
+    accountPubKey,
+    options: { branchAndBoundMaxTries: 2, seed: 1 },
+    result: {
+      type: 'final',
+      // random-improve returns the seed
+      seed: 1,
+      totalSpent: '2669637',
+      fee: '169637',
+      inputs: [utxo1, utxo4],
+      outputs: [
+        {
+          address:
+            'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+          amount: '2500000',
+          assets: [],
+          setMax: false,
+        },
+        {
+          isChange: true,
+          address: changeAddress,
+          amount: '4330363',
+          assets: [],
+        },
+      ],
+    },
+  },
+  {
+    description: 'Branch-and-bound is skipped without outputs',
+    utxos: [
+      utxo1,
+      // would be burned as fee by an exact match
+      prepareUtxo(utxo1, {
+        outputIndex: 9,
+        amount: [{ quantity: '200000', unit: 'lovelace' }],
+      }),
+    ],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [],
+    accountPubKey,
+    options: { seed: 1 },
+    result: {
+      type: 'final',
+      seed: 1,
+      totalSpent: '166777',
+      fee: '166777',
+      outputs: [
+        {
+          isChange: true,
+          address: changeAddress,
+          amount: '5033223',
+          assets: [],
+        },
+      ],
+    },
+  },
+];
+
+export const exceptions = [
+  {
+    description: 'Pool reward account from another network',
+    utxos: [utxo1],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [
+      {
+        type: 3,
+        pool_parameters: {
+          ...poolParameters,
+          rewardAccount:
+            'stake_test1ura495c9tgar5v3cecse507p8ljds7ta2p3w3h2xwrra9xcwr5jhu',
+        },
+      },
+    ] as Certificate[],
+    withdrawals: [],
+    accountPubKey,
+    options: { network: 'mainnet' as const },
+    result: 'ADDRESS_NETWORK_MISMATCH',
+  },
+];
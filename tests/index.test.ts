@@ -0,0 +1,22 @@
+import * as fixtures from './fixtures/index';
+import { coinSelection } from '../src/index';
+import { CoinSelectionResult } from '../src/types/types';
+import { sanityCheck } from './setup';
+
+describe('coinSelection', () => {
+  fixtures.coinSelection.forEach(f => {
+    test(f.description, () => {
+      const res = coinSelection(f, f.options);
+      expect(res).toMatchObject(f.result);
+      sanityCheck(res as CoinSelectionResult);
+    });
+  });
+
+  fixtures.exceptions.forEach(f => {
+    test(f.description, () => {
+      expect(() => coinSelection(f, f.options)).toThrowError(
+        expect.objectContaining({ code: f.result }),
+      );
+    });
+  });
+});
@@ -0,0 +1,39 @@
+import * as fixtures from './fixtures/branchAndBound';
+import { branchAndBound } from '../../src/methods/branchAndBound';
+import { sanityCheck } from '../setup';
+
+describe('coinSelection - branchAndBound', () => {
+  fixtures.coinSelection.forEach(f => {
+    const { utxos, outputs, changeAddress, ttl } = f;
+
+    test(f.description, () => {
+      const res = branchAndBound(
+        {
+          utxos,
+          outputs,
+          changeAddress,
+          ttl,
+        },
+        f.options,
+      );
+      expect(res).toMatchObject(f.result);
+      sanityCheck(res);
+    });
+  });
+
+  fixtures.exceptions.forEach(f => {
+    const { utxos, outputs, changeAddress } = f;
+    test(f.description, () => {
+      const res = () =>
+        branchAndBound(
+          {
+            utxos,
+            outputs,
+            changeAddress,
+          },
+          f.options,
+        );
+      expect(res).toThrowError(expect.objectContaining({ code: f.result }));
+    });
+  });
+});
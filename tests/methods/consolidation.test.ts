@@ -0,0 +1,32 @@
+import * as fixtures from './fixtures/consolidation';
+import { consolidation } from '../../src/methods/consolidation';
+import { CARDANO_PARAMS } from '../../src/constants';
+import { sanityCheck } from '../setup';
+
+describe('consolidation', () => {
+  fixtures.consolidation.forEach(f => {
+    test(f.description, () => {
+      const res = consolidation(
+        { utxos: f.utxos, changeAddress: f.changeAddress },
+        f.options,
+      );
+      expect(res).toMatchObject(f.result);
+      expect(res.tx.size).toBeLessThanOrEqual(CARDANO_PARAMS.MAX_TX_SIZE);
+      expect(res.consolidation.utxosAfter).toBe(
+        f.utxos.length - res.inputs.length + res.outputs.length,
+      );
+      sanityCheck(res);
+    });
+  });
+
+  fixtures.exceptions.forEach(f => {
+    test(f.description, () => {
+      const res = () =>
+        consolidation(
+          { utxos: f.utxos, changeAddress: f.changeAddress },
+          f.options,
+        );
+      expect(res).toThrowError(expect.objectContaining({ code: f.result }));
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import {
+  changeAddress,
+  utxo1,
+  utxo2,
+  utxo3,
+  utxo4,
+  utxo5,
+} from '../../fixtures/constants';
+
+export const coinSelection = [
+  {
+    description: 'Single utxo covers the output, remaining dust burned as fee',
+    utxos: [utxo1, utxo2, utxo3, utxo4, utxo5],
+    outputs: [
+      {
+        address:
+          'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+        amount: '4800000',
+        assets: [],
+        setMax: false,
+      },
+    ],
+    changeAddress: changeAddress,
+    ttl: undefined,
+    options: {},
+    result: {
+      totalSpent: '5000000',
+      fee: '200000',
+      inputs: [utxo1],
+      outputs: [
+        {
+          address:
+            'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+          amount: '4800000',
+          assets: [],
+          setMax: false,
+        },
+      ],
+    },
+  },
+  {
+    description: 'Combination of 2 utxos, utxo with tokens is skipped',
+    utxos: [utxo1, utxo2, utxo3, utxo4, utxo5],
+    outputs: [
+      {
+        address:
+          'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+        amount: '6800000',
+        assets: [],
+        setMax: false,
+      },
+    ],
+    changeAddress: changeAddress,
+    ttl: 123456789,
+    options: {},
+    result: {
+      totalSpent: '7000000',
+      fee: '200000',
+      inputs: [utxo1, utxo4],
+      ttl: 123456789,
+    },
+  },
+];
+
+export const exceptions = [
+  {
+    description: 'Only utxos with tokens, change output would be required',
+    utxos: [utxo2],
+    outputs: [
+      {
+        address:
+          'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+        amount: '4800000',
+        assets: [],
+        setMax: false,
+      },
+    ],
+    changeAddress: changeAddress,
+    options: {},
+    result: 'UTXO_NO_EXACT_MATCH',
+  },
+  {
+    description: 'No combination of utxos fits within the window',
+    utxos: [utxo1, utxo3],
+    outputs: [
+      {
+        address:
+          'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+        amount: '3000000',
+        assets: [],
+        setMax: false,
+      },
+    ],
+    changeAddress: changeAddress,
+    options: {},
+    result: 'UTXO_NO_EXACT_MATCH',
+  },
+  {
+    description: 'Search budget exhausted',
+    utxos: [utxo1, utxo3, utxo4, utxo5],
+    outputs: [
+      {
+        address:
+          'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+        amount: '2500000',
+        assets: [],
+        setMax: false,
+      },
+    ],
+    changeAddress: changeAddress,
+    options: { branchAndBoundMaxTries: 2 },
+    result: 'UTXO_NO_EXACT_MATCH',
+  },
+];
@@ -0,0 +1,125 @@
+import {
+  changeAddress,
+  prepareDustUtxos,
+  prepareUtxo,
+  utxo1,
+  utxo2,
+  utxo3,
+  utxo5,
+  utxo6,
+  utxo7,
+} from '../../fixtures/constants';
+
+const dustUtxos = prepareDustUtxos(500);
+
+export const consolidation = [
+  {
+    description: 'Merge all utxos into a single output, tokens included',
+    utxos: [utxo1, utxo2, utxo3, utxo5, utxo6, utxo7],
+    changeAddress,
+    options: { network: 'mainnet' as const },
+    result: {
+      outputs: [
+        {
+          isChange: true,
+          address: changeAddress,
+          assets: [
+            {
+              quantity: '4000',
+              unit: '02477d7c23b4c2834b0be8ca8578dde47af0cc82a964688f6fc95a7a47524943',
+            },
+            {
+              quantity: '100',
+              unit: 'c6207cbbc916fa3bbb4b91cc7789c7d7ddfb84264fa76f7ee627a9d8',
+            },
+          ],
+        },
+      ],
+      consolidation: {
+        utxosBefore: 6,
+        utxosAfter: 1,
+        utxosRemoved: 5,
+      },
+    },
+  },
+  {
+    description: 'Tokens split into multiple outputs (_maxTokensPerOutput=1)',
+    utxos: [utxo1, utxo2, utxo3, utxo5, utxo6, utxo7],
+    changeAddress,
+    options: { _maxTokensPerOutput: 1 },
+    result: {
+      consolidation: {
+        utxosBefore: 6,
+        utxosAfter: 2,
+        utxosRemoved: 4,
+      },
+    },
+  },
+  {
+    description: 'Smallest utxos that fit into max tx size',
+    utxos: [utxo3, ...dustUtxos],
+    changeAddress,
+    options: {},
+    result: {
+      consolidation: {
+        utxosBefore: 501,
+      },
+    },
+  },
+  {
+    description:
+      'Utxo over the limit of reference scripts size (200 KiB) is left out',
+    utxos: [
+      utxo1,
+      utxo2,
+      prepareUtxo(utxo3, { referenceScriptSize: 150000 }),
+      prepareUtxo(utxo5, { referenceScriptSize: 100000 }),
+    ],
+    changeAddress,
+    options: {
+      protocolParameters: {
+        minFeeRefScriptCostPerByte: '1',
+        era: 'conway' as const,
+      },
+    },
+    result: {
+      consolidation: {
+        utxosBefore: 4,
+        utxosAfter: 2,
+        utxosRemoved: 2,
+      },
+    },
+  },
+];
+
+export const exceptions = [
+  {
+    description: 'Single utxo cannot be consolidated',
+    utxos: [utxo1],
+    changeAddress,
+    options: {},
+    result: 'NOTHING_TO_CONSOLIDATE',
+  },
+  {
+    description: 'Utxos do not cover the fee',
+    utxos: [
+      prepareUtxo(utxo1, {
+        amount: [{ quantity: '50000', unit: 'lovelace' }],
+      }),
+      prepareUtxo(utxo1, {
+        outputIndex: 1,
+        amount: [{ quantity: '50000', unit: 'lovelace' }],
+      }),
+    ],
+    changeAddress,
+    options: {},
+    result: 'UTXO_BALANCE_INSUFFICIENT',
+  },
+  {
+    description: 'Mainnet utxos on preprod network',
+    utxos: [utxo1, utxo2],
+    changeAddress,
+    options: { network: 'preprod' as const },
+    result: 'ADDRESS_NETWORK_MISMATCH',
+  },
+];
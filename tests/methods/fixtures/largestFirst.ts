@@ -1,6 +1,15 @@
-import { Certificate } from '../../../src/types/types';
+import {
+  Certificate,
+  Proposal,
+  SelectionStrategy,
+  SelectionStrategyContext,
+  Utxo,
+  Vote,
+} from '../../../src/types/types';
 import {
   changeAddress,
+  prepareDustUtxos,
+  prepareUtxo,
   utxo1,
   utxo2,
   utxo3,
@@ -9,6 +18,7 @@ import {
   utxo6,
   utxo7,
   utxo8,
+  poolParameters,
 } from '../../fixtures/constants';
 
 export const nonFinalCompose = [
@@ -716,107 +726,124 @@ export const coinSelection = [
         amount: '10000000',
         stakingPath: "m/1852'/1815'/1'/2/0",
         stakeAddress:
-          'stake1u8yk3dcuj8yylwvnzz953yups6mmuvt0vtjmxl2gmgceqjqz2yfd2',
+          'stake1u8a495c962jd9f7nhvwck8j0rneu4c9jc3a5nelq78gu8vsj95ey6',
       },
     ],
     accountPubKey:
       'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
     options: {},
     result: {
-      totalSpent: '171309',
-      fee: '171309',
+      totalSpent: '177337',
+      fee: '177337',
       inputs: [utxo1],
       outputs: [
         {
           isChange: true,
           address: changeAddress,
-          amount: '24828691',
+          amount: '24822663',
           assets: [],
         },
       ],
     },
   },
   {
-    description: 'stake registration',
+    description: 'withdrawing rewards of a multisig script reward address',
     utxos: [utxo1],
     outputs: [],
     changeAddress: changeAddress,
-    certificates: [
+    certificates: [],
+    withdrawals: [
       {
-        type: 0,
+        amount: '10000000',
+        stakeAddress:
+          'stake178v5hlmavj8sc8mkakzlku6x4grgxnh0l9m7z0q0x2rhz8gnxz6gx',
+        // all of 2 keys
+        nativeScript:
+          '8201828200581cfb52d305d2a4d2a7d3bb1d8b1e4f1cf3cae0b2c47b49e7e0f1d1c3b28200581c0f292fcaa02b8b2f9b3c8f9fd8e0bb21abedb692a6d5058df3ef2735',
       },
-    ] as Certificate[],
-    withdrawals: [],
+    ],
     accountPubKey:
       'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
-    options: {},
+    options: { protocolParameters: { era: 'conway' as const } },
     result: {
-      totalSpent: '2166777',
-      fee: '166777',
-      inputs: [utxo1],
+      totalSpent: '179185',
+      fee: '179185',
       outputs: [
         {
           isChange: true,
           address: changeAddress,
-          amount: '2833223',
+          amount: '14820815',
           assets: [],
         },
       ],
     },
   },
   {
-    description: 'stake delegation',
-    utxos: [utxo1],
+    description:
+      'multi-delegation: stake keys 0 and 1 delegated to different pools',
+    utxos: [
+      prepareUtxo(utxo1, {
+        amount: [{ quantity: '10000000', unit: 'lovelace' }],
+      }),
+    ],
     outputs: [],
     changeAddress: changeAddress,
     certificates: [
       {
-        type: 2 as const,
-
+        type: 11,
         pool: '0f292fcaa02b8b2f9b3c8f9fd8e0bb21abedb692a6d5058df3ef2735',
       },
+      {
+        type: 11,
+        stakeKeyIndex: 1,
+        pool: 'fb52d3055a3a3a3238ce219a3fc13fe4d8797d5062e8dd4670c7d29b',
+      },
     ] as Certificate[],
     withdrawals: [],
     accountPubKey:
       'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
-    options: {},
+    options: { protocolParameters: { era: 'conway' as const } },
     result: {
-      totalSpent: '172541',
-      fee: '172541',
-      inputs: [utxo1],
+      totalSpent: '4180637',
+      fee: '180637',
+      deposit: '4000000',
       outputs: [
         {
           isChange: true,
           address: changeAddress,
-          amount: '4827459',
+          amount: '5819363',
           assets: [],
         },
       ],
     },
   },
   {
-    description: 'stake deregistration',
+    description:
+      'stake key registered and delegated by 2 certificates needs a single witness',
     utxos: [utxo1],
     outputs: [],
     changeAddress: changeAddress,
     certificates: [
+      { type: 0, stakeKeyIndex: 1 },
       {
-        type: 1,
+        type: 2,
+        stakeKeyIndex: 1,
+        pool: 'fb52d3055a3a3a3238ce219a3fc13fe4d8797d5062e8dd4670c7d29b',
       },
     ] as Certificate[],
     withdrawals: [],
     accountPubKey:
       'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
-    options: {},
+    options: { protocolParameters: { era: 'conway' as const } },
     result: {
-      totalSpent: '171221',
-      fee: '171221',
-      inputs: [utxo1],
+      totalSpent: '2174653',
+      fee: '174653',
+      deposit: '2000000',
       outputs: [
         {
           isChange: true,
           address: changeAddress,
-          amount: '6828779',
+          amount: '2825347',
           assets: [],
         },
       ],
@@ -824,150 +851,1089 @@ export const coinSelection = [
   },
   {
     description:
-      'multiple utxos (including multi asset), 2 user defined outputs (ADA only) + 1 change output (with an asset)',
-    utxos: [
-      {
-        address:
-          'addr1q9vf2uqwv9cx23rsfeqqa4g9rv8s2ha464sycdwpzdhm7ana9nxu0t6xjurg0qqcwwdulh56uglsp8z2uw9wuzjtfuaqka2l2d',
-        txHash:
-          '1bfb8b1d06bd28fb33493afaa5b22dec02bb8e292bbd7a6965c9037b5964a808',
-        outputIndex: 1,
-        amount: [
-          {
-            quantity: '3831173306',
-            unit: 'lovelace',
-          },
-          {
-            quantity: '998900',
-            unit: '02477d7c23b4c2834b0be8ca8578dde47af0cc82a964688f6fc95a7a47524943',
-          },
-        ],
-      },
-      {
-        address:
-          'addr1qydd8kf2vtzv05y703kvsq0tcrgnwynqemxkp7rw4nwnq2ma9nxu0t6xjurg0qqcwwdulh56uglsp8z2uw9wuzjtfuaqqdz40d',
-        txHash:
-          '064ebc7096680b94de4e1c014938ea44886829c08ec01025578104b7b60d6bcf',
-        outputIndex: 1,
-        amount: [
-          {
-            quantity: '848035104',
-            unit: 'lovelace',
-          },
-        ],
-      },
+      'withdrawing rewards of stake key 1 and delegating stake key 0',
+    utxos: [utxo1],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [
       {
-        address:
-          'addr1q80vvrk4syazwl6w706ah9rgzvr5heq6hq2tjqxxu3x8wnma9nxu0t6xjurg0qqcwwdulh56uglsp8z2uw9wuzjtfuaqvmacgp',
-        txHash:
-          'd49c08164d3f2abc1a2e1b16a2c81122240a99bb6bd2f8d33628048df7529adc',
-        outputIndex: 1,
-        amount: [
-          {
-            quantity: '1180285694',
-            unit: 'lovelace',
-          },
-        ],
+        type: 2,
+        pool: '0f292fcaa02b8b2f9b3c8f9fd8e0bb21abedb692a6d5058df3ef2735',
       },
+    ] as Certificate[],
+    withdrawals: [
       {
-        address:
-          'addr1q984228shp7a6m0xrj39k7uuvcpsqt2dkjn8r6lvrpnmdfna9nxu0t6xjurg0qqcwwdulh56uglsp8z2uw9wuzjtfuaq77p62n',
-        txHash:
-          'ca0bad48270c5345bbcce7a850f545be5582a780d5a0337385d1b7413dfc60e3',
-        outputIndex: 0,
-        amount: [
-          {
-            quantity: '2000000',
-            unit: 'lovelace',
-          },
-        ],
+        amount: '10000000',
+        stakeKeyIndex: 1,
+        stakeAddress:
+          'stake1uxcvg6ffcpj5w6lkl8pu794kv95g3zelvp9un9l5llfggwcchem60',
       },
     ],
-    outputs: [
-      {
-        address:
-          'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
-        amount: '1000000',
-        assets: [],
-        setMax: false,
-      },
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { protocolParameters: { era: 'conway' as const } },
+    result: {
+      totalSpent: '179053',
+      fee: '179053',
+      deposit: '0',
+      outputs: [
+        {
+          isChange: true,
+          address: changeAddress,
+          amount: '14820947',
+          assets: [],
+        },
+      ],
+    },
+  },
+  {
+    description: 'stake registration',
+    utxos: [utxo1],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [
       {
-        address:
-          'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
-        amount: '2000000',
-        assets: [],
-        setMax: false,
+        type: 0,
       },
-    ],
-    changeAddress: changeAddress,
-    certificates: [],
+    ] as Certificate[],
     withdrawals: [],
     accountPubKey:
       'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
     options: {},
     result: {
-      totalSpent: '3172805',
-      fee: '172805',
-      inputs: [
-        {
-          address:
-            'addr1q9vf2uqwv9cx23rsfeqqa4g9rv8s2ha464sycdwpzdhm7ana9nxu0t6xjurg0qqcwwdulh56uglsp8z2uw9wuzjtfuaqka2l2d',
-          txHash:
-            '1bfb8b1d06bd28fb33493afaa5b22dec02bb8e292bbd7a6965c9037b5964a808',
-          outputIndex: 1,
-          amount: [
-            {
-              quantity: '3831173306',
-              unit: 'lovelace',
-            },
-            {
-              quantity: '998900',
-              unit: '02477d7c23b4c2834b0be8ca8578dde47af0cc82a964688f6fc95a7a47524943',
-            },
-          ],
-        },
-      ],
+      totalSpent: '2166777',
+      fee: '166777',
+      inputs: [utxo1],
       outputs: [
         {
-          address:
-            'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
-          amount: '1000000',
+          isChange: true,
+          address: changeAddress,
+          amount: '2833223',
           assets: [],
-          setMax: false,
         },
+      ],
+    },
+  },
+  {
+    description:
+      'stake registration with custom protocol parameters (key deposit, fee)',
+    utxos: [utxo1],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [
+      {
+        type: 0,
+      },
+    ] as Certificate[],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: {
+      protocolParameters: {
+        minFeeA: '0',
+        minFeeB: '200000',
+        keyDeposit: '3000000',
+      },
+    },
+    result: {
+      totalSpent: '3200000',
+      fee: '200000',
+      deposit: '3000000',
+      inputs: [utxo1],
+      outputs: [
         {
-          address:
-            'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
-          amount: '2000000',
+          isChange: true,
+          address: changeAddress,
+          amount: '1800000',
           assets: [],
-          setMax: false,
         },
+      ],
+    },
+  },
+  {
+    description:
+      'stake registration in Conway era (explicit deposit in the certificate, tagged sets)',
+    utxos: [utxo1],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [
+      {
+        type: 0,
+      },
+    ] as Certificate[],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { protocolParameters: { era: 'conway' as const } },
+    result: {
+      totalSpent: '2171837',
+      fee: '171837',
+      deposit: '2000000',
+      inputs: [utxo1],
+      tx: {
+        body: 'a400d90102818258203c388acb799a37a4f1cc99bec7626637b0b80626b9ef7c7a687282cab701178d00018182583901f8a4be8308c12b910252b6fd6ee4a98730300009382becc049a6e618476aacdafaf01e68c2f072270f078c9689da6139eba4b309e1d5615f1a002b2783021a00029f3d04d901028183078200581cfb52d3055a3a3a3238ce219a3fc13fe4d8797d5062e8dd4670c7d29b1a001e8480',
+      },
+    },
+  },
+  {
+    description: 'stake pool registration',
+    utxos: [
+      prepareUtxo(utxo1, {
+        amount: [{ quantity: '600000000', unit: 'lovelace' }],
+      }),
+    ],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [
+      {
+        type: 3,
+        pool_parameters: poolParameters,
+      },
+    ] as Certificate[],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { protocolParameters: { era: 'conway' as const } },
+    result: {
+      totalSpent: '500182353',
+      fee: '182353',
+      deposit: '500000000',
+      outputs: [
         {
-          amount: '3828000501',
           isChange: true,
           address: changeAddress,
-          assets: [
-            {
-              unit: '02477d7c23b4c2834b0be8ca8578dde47af0cc82a964688f6fc95a7a47524943',
-              quantity: '998900',
-            },
-          ],
+          amount: '99817647',
+          assets: [],
         },
       ],
     },
   },
   {
-    description: 'Correctly recalculate change output after set max on token',
-    utxos: [
+    description: 'stake pool retirement (deposit is not refunded in the tx)',
+    utxos: [utxo1],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [
       {
-        address:
-          'addr_test1qzhts48qcr2s76qcrh4rvwwah5xc52g7fr4xtzfzq9ffxme9j9xney949w6u957hfn5r7gmlh789208l4g9cal4m9p3qyt8vq9',
-        txHash:
-          'd8ff7a39d1daf80ae2e99351c51fbb823f223e717cee09d23bc1b2691092632d',
-        outputIndex: 0,
-        amount: [
-          {
-            quantity: '1344798',
+        type: 4,
+        pool: 'fb52d3055a3a3a3238ce219a3fc13fe4d8797d5062e8dd4670c7d29b',
+        epoch: 500,
+      },
+    ] as Certificate[],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { protocolParameters: { era: 'conway' as const } },
+    result: {
+      totalSpent: '171661',
+      fee: '171661',
+      deposit: '0',
+      outputs: [
+        {
+          isChange: true,
+          address: changeAddress,
+          amount: '4828339',
+          assets: [],
+        },
+      ],
+    },
+  },
+  {
+    description: 'vote delegation to always abstain',
+    utxos: [utxo1],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [{ type: 9, drep: { type: 2 } }] as Certificate[],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { protocolParameters: { era: 'conway' as const } },
+    result: {
+      totalSpent: '171705',
+      fee: '171705',
+      deposit: '0',
+      outputs: [
+        {
+          isChange: true,
+          address: changeAddress,
+          amount: '4828295',
+          assets: [],
+        },
+      ],
+    },
+  },
+  {
+    description: 'stake and vote delegation to a DRep script hash',
+    utxos: [utxo1],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [
+      {
+        type: 10,
+        pool: '0f292fcaa02b8b2f9b3c8f9fd8e0bb21abedb692a6d5058df3ef2735',
+        drep: {
+          type: 1,
+          scriptHash:
+            '6b6c3fd73732187810b1e68e325e4092587a0d052f1d3387ae9250ed',
+        },
+      },
+    ] as Certificate[],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { protocolParameters: { era: 'conway' as const } },
+    result: {
+      totalSpent: '174345',
+      fee: '174345',
+      deposit: '0',
+      outputs: [
+        {
+          isChange: true,
+          address: changeAddress,
+          amount: '4825655',
+          assets: [],
+        },
+      ],
+    },
+  },
+  {
+    description: 'stake registration and delegation, deposit is charged',
+    utxos: [utxo1],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [
+      {
+        type: 11,
+        pool: '0f292fcaa02b8b2f9b3c8f9fd8e0bb21abedb692a6d5058df3ef2735',
+      },
+    ] as Certificate[],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { protocolParameters: { era: 'conway' as const } },
+    result: {
+      totalSpent: '2173157',
+      fee: '173157',
+      deposit: '2000000',
+      outputs: [
+        {
+          isChange: true,
+          address: changeAddress,
+          amount: '2826843',
+          assets: [],
+        },
+      ],
+    },
+  },
+  {
+    description: 'vote registration and delegation to always no confidence',
+    utxos: [utxo1],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [{ type: 12, drep: { type: 3 } }] as Certificate[],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { protocolParameters: { era: 'conway' as const } },
+    result: {
+      totalSpent: '2171925',
+      fee: '171925',
+      deposit: '2000000',
+      outputs: [
+        {
+          isChange: true,
+          address: changeAddress,
+          amount: '2828075',
+          assets: [],
+        },
+      ],
+    },
+  },
+  {
+    description:
+      'stake and vote registration and delegation to a DRep key hash',
+    utxos: [utxo1],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [
+      {
+        type: 13,
+        pool: '0f292fcaa02b8b2f9b3c8f9fd8e0bb21abedb692a6d5058df3ef2735',
+        drep: {
+          type: 0,
+          keyHash: 'fb52d305d2a4d2a7d3bb1d8b1e4f1cf3cae0b2c47b49e7e0f1d1c3b2',
+        },
+      },
+    ] as Certificate[],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { protocolParameters: { era: 'conway' as const } },
+    result: {
+      totalSpent: '2174565',
+      fee: '174565',
+      deposit: '2000000',
+      outputs: [
+        {
+          isChange: true,
+          address: changeAddress,
+          amount: '2825435',
+          assets: [],
+        },
+      ],
+    },
+  },
+  {
+    description: 'stake deregistration, fee is paid from the refund',
+    utxos: [
+      prepareUtxo(utxo1, {
+        amount: [{ quantity: '150000', unit: 'lovelace' }],
+      }),
+    ],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [{ type: 1 }] as Certificate[],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { protocolParameters: { era: 'conway' as const } },
+    result: {
+      totalSpent: '171837',
+      fee: '171837',
+      deposit: '-2000000',
+      outputs: [
+        {
+          isChange: true,
+          address: changeAddress,
+          amount: '1978163',
+          assets: [],
+        },
+      ],
+    },
+  },
+  {
+    description: 'stake deregistration refunding an explicit deposit',
+    utxos: [utxo1],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [{ type: 1, deposit: '3000000' }] as Certificate[],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { protocolParameters: { era: 'conway' as const } },
+    result: {
+      totalSpent: '171837',
+      fee: '171837',
+      deposit: '-3000000',
+      outputs: [
+        {
+          isChange: true,
+          address: changeAddress,
+          amount: '7828163',
+          assets: [],
+        },
+      ],
+    },
+  },
+  {
+    description:
+      'DRep registration with anchor (DRep key derived from the account)',
+    utxos: [
+      prepareUtxo(utxo1, {
+        amount: [{ quantity: '600000000', unit: 'lovelace' }],
+      }),
+    ],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [
+      {
+        type: 16,
+        anchor: {
+          url: 'https://example.com/drep.jsonld',
+          hash: '8dd154228946bd12967c12bedb1cb6038b78f8b84a1760b1a788fa72a4af3db0',
+        },
+      },
+    ] as Certificate[],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { protocolParameters: { era: 'conway' as const } },
+    result: {
+      totalSpent: '500174829',
+      fee: '174829',
+      deposit: '500000000',
+      outputs: [
+        {
+          isChange: true,
+          address: changeAddress,
+          amount: '99825171',
+          assets: [],
+        },
+      ],
+    },
+  },
+  {
+    description: 'DRep deregistration, deposit is refunded',
+    utxos: [utxo1],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [{ type: 17 }] as Certificate[],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { protocolParameters: { era: 'conway' as const } },
+    result: {
+      totalSpent: '171837',
+      fee: '171837',
+      deposit: '-500000000',
+      outputs: [
+        {
+          isChange: true,
+          address: changeAddress,
+          amount: '504828163',
+          assets: [],
+        },
+      ],
+    },
+  },
+  {
+    description: 'DRep update of a DRep given by a script hash',
+    utxos: [utxo1],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [
+      {
+        type: 18,
+        drepScriptHash:
+          '6b6c3fd73732187810b1e68e325e4092587a0d052f1d3387ae9250ed',
+        nativeScript:
+          '8200581cfb52d305d2a4d2a7d3bb1d8b1e4f1cf3cae0b2c47b49e7e0f1d1c3b2',
+      },
+    ] as Certificate[],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { protocolParameters: { era: 'conway' as const } },
+    result: {
+      totalSpent: '173289',
+      fee: '173289',
+      deposit: '0',
+      outputs: [
+        {
+          isChange: true,
+          address: changeAddress,
+          amount: '4826711',
+          assets: [],
+        },
+      ],
+    },
+  },
+  {
+    description: 'DRep vote of the DRep key derived from the account',
+    utxos: [utxo1],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [],
+    votes: [
+      {
+        voter: { type: 2 },
+        govActionId: {
+          txHash:
+            '3b40265111d8bb3c3c608d95b3a0bf83461ace32d79336579a1939b3aad1c0b7',
+          index: 0,
+        },
+        vote: 1,
+        anchor: {
+          url: 'https://example.com/rationale.json',
+          hash: '9e4d2c0b6ac6a5e4a1d1a8e2e9e8b8bd4c9e2e1f7a3b5c6d8e9f0a1b2c3d4e5f',
+        },
+      },
+    ] as Vote[],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { protocolParameters: { era: 'conway' as const } },
+    result: {
+      totalSpent: '176237',
+      fee: '176237',
+      deposit: '0',
+      outputs: [
+        {
+          isChange: true,
+          address: changeAddress,
+          amount: '4823763',
+          assets: [],
+        },
+      ],
+    },
+  },
+  {
+    description: 'Votes of a stake pool on 2 governance actions',
+    utxos: [utxo1],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [],
+    votes: [
+      {
+        voter: {
+          type: 4,
+          hash: '0f292fcaa02b8b2f9b3c8f9fd8e0bb21abedb692a6d5058df3ef2735',
+        },
+        govActionId: {
+          txHash:
+            '3b40265111d8bb3c3c608d95b3a0bf83461ace32d79336579a1939b3aad1c0b7',
+          index: 0,
+        },
+        vote: 0,
+      },
+      {
+        voter: {
+          type: 4,
+          hash: '0f292fcaa02b8b2f9b3c8f9fd8e0bb21abedb692a6d5058df3ef2735',
+        },
+        govActionId: {
+          txHash:
+            '3b40265111d8bb3c3c608d95b3a0bf83461ace32d79336579a1939b3aad1c0b7',
+          index: 1,
+        },
+        vote: 2,
+      },
+    ] as Vote[],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { protocolParameters: { era: 'conway' as const } },
+    result: {
+      totalSpent: '174873',
+      fee: '174873',
+      deposit: '0',
+      outputs: [
+        {
+          isChange: true,
+          address: changeAddress,
+          amount: '4825127',
+          assets: [],
+        },
+      ],
+    },
+  },
+  {
+    description: 'Vote of a DRep given by a script hash',
+    utxos: [utxo1],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [],
+    votes: [
+      {
+        voter: {
+          type: 3,
+          hash: '6b6c3fd73732187810b1e68e325e4092587a0d052f1d3387ae9250ed',
+          nativeScript:
+            '8200581cfb52d305d2a4d2a7d3bb1d8b1e4f1cf3cae0b2c47b49e7e0f1d1c3b2',
+        },
+        govActionId: {
+          txHash:
+            '3b40265111d8bb3c3c608d95b3a0bf83461ace32d79336579a1939b3aad1c0b7',
+          index: 0,
+        },
+        vote: 2,
+      },
+    ] as Vote[],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { protocolParameters: { era: 'conway' as const } },
+    result: {
+      totalSpent: '174785',
+      fee: '174785',
+      deposit: '0',
+      outputs: [
+        {
+          isChange: true,
+          address: changeAddress,
+          amount: '4825215',
+          assets: [],
+        },
+      ],
+    },
+  },
+  {
+    description: 'Info action proposal, governance action deposit is paid',
+    utxos: [
+      prepareUtxo(utxo1, {
+        amount: [{ quantity: '100010000000', unit: 'lovelace' }],
+      }),
+    ],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [],
+    proposals: [
+      {
+        action: { type: 6 },
+        returnAddress:
+          'stake1u8a495c9tgar5v3cecse507p8ljds7ta2p3w3h2xwrra9xcff7snp',
+        anchor: {
+          url: 'https://example.com/proposal.json',
+          hash: '9e4d2c0b6ac6a5e4a1d1a8e2e9e8b8bd4c9e2e1f7a3b5c6d8e9f0a1b2c3d4e5f',
+        },
+      },
+    ] as Proposal[],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { protocolParameters: { era: 'conway' as const } },
+    result: {
+      totalSpent: '100000170649',
+      fee: '170649',
+      deposit: '100000000000',
+      depositBreakdown: { certificates: '0', proposals: '100000000000' },
+      outputs: [
+        {
+          isChange: true,
+          address: changeAddress,
+          amount: '9829351',
+          assets: [],
+        },
+      ],
+    },
+  },
+  {
+    description: 'Treasury withdrawal proposal with DRep registration',
+    utxos: [
+      prepareUtxo(utxo1, {
+        amount: [{ quantity: '100510000000', unit: 'lovelace' }],
+      }),
+    ],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [{ type: 16 }] as Certificate[],
+    withdrawals: [],
+    proposals: [
+      {
+        action: {
+          type: 2,
+          withdrawals: [
+            {
+              stakeAddress:
+                'stake1u8a495c962jd9f7nhvwck8j0rneu4c9jc3a5nelq78gu8vsj95ey6',
+              amount: '1000000000000',
+            },
+          ],
+        },
+        returnAddress:
+          'stake1u8a495c9tgar5v3cecse507p8ljds7ta2p3w3h2xwrra9xcff7snp',
+        anchor: {
+          url: 'https://example.com/proposal.json',
+          hash: '9e4d2c0b6ac6a5e4a1d1a8e2e9e8b8bd4c9e2e1f7a3b5c6d8e9f0a1b2c3d4e5f',
+        },
+      },
+    ] as Proposal[],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { protocolParameters: { era: 'conway' as const } },
+    result: {
+      totalSpent: '100500178921',
+      fee: '178921',
+      deposit: '100500000000',
+      depositBreakdown: {
+        certificates: '500000000',
+        proposals: '100000000000',
+      },
+      outputs: [
+        {
+          isChange: true,
+          address: changeAddress,
+          amount: '9821079',
+          assets: [],
+        },
+      ],
+    },
+  },
+  {
+    description:
+      'Parameter change proposal with a previous action, deposit of protocol parameters',
+    utxos: [utxo1],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [],
+    proposals: [
+      {
+        action: {
+          type: 0,
+          // maxTxSize 20000
+          parameterUpdate: 'a103194e20',
+          prevGovActionId: {
+            txHash:
+              '3b40265111d8bb3c3c608d95b3a0bf83461ace32d79336579a1939b3aad1c0b7',
+            index: 0,
+          },
+        },
+        returnAddress:
+          'stake1u8a495c9tgar5v3cecse507p8ljds7ta2p3w3h2xwrra9xcff7snp',
+        anchor: {
+          url: 'https://example.com/proposal.json',
+          hash: '9e4d2c0b6ac6a5e4a1d1a8e2e9e8b8bd4c9e2e1f7a3b5c6d8e9f0a1b2c3d4e5f',
+        },
+      },
+    ] as Proposal[],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: {
+      protocolParameters: {
+        govActionDeposit: '2000000',
+        era: 'conway' as const,
+      },
+    },
+    result: {
+      totalSpent: '2172321',
+      fee: '172321',
+      deposit: '2000000',
+      depositBreakdown: { certificates: '0', proposals: '2000000' },
+      outputs: [
+        {
+          isChange: true,
+          address: changeAddress,
+          amount: '2827679',
+          assets: [],
+        },
+      ],
+    },
+  },
+  {
+    description: 'reference script fee of the input (1000 bytes)',
+    utxos: [prepareUtxo(utxo1, { referenceScriptSize: 1000 })],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: {
+      protocolParameters: {
+        minFeeA: '0',
+        minFeeB: '200000',
+        minFeeRefScriptCostPerByte: '100',
+        era: 'conway' as const,
+      },
+    },
+    result: {
+      totalSpent: '300000',
+      fee: '300000',
+      feeBreakdown: { txFee: '200000', referenceScriptFee: '100000' },
+      deposit: '0',
+      inputs: [prepareUtxo(utxo1, { referenceScriptSize: 1000 })],
+      outputs: [
+        {
+          isChange: true,
+          address: changeAddress,
+          amount: '4700000',
+          assets: [],
+        },
+      ],
+    },
+  },
+  {
+    description: 'stake delegation',
+    utxos: [utxo1],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [
+      {
+        type: 2 as const,
+
+        pool: '0f292fcaa02b8b2f9b3c8f9fd8e0bb21abedb692a6d5058df3ef2735',
+      },
+    ] as Certificate[],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: {},
+    result: {
+      totalSpent: '172541',
+      fee: '172541',
+      inputs: [utxo1],
+      outputs: [
+        {
+          isChange: true,
+          address: changeAddress,
+          amount: '4827459',
+          assets: [],
+        },
+      ],
+    },
+  },
+  {
+    description: 'stake delegation of a staking key hash',
+    utxos: [utxo1],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [
+      {
+        type: 2,
+        stakingKeyHash:
+          'fb52d305d2a4d2a7d3bb1d8b1e4f1cf3cae0b2c47b49e7e0f1d1c3b2',
+        pool: '0f292fcaa02b8b2f9b3c8f9fd8e0bb21abedb692a6d5058df3ef2735',
+      },
+    ] as Certificate[],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { protocolParameters: { era: 'conway' as const } },
+    result: {
+      totalSpent: '172937',
+      fee: '172937',
+      deposit: '0',
+      outputs: [
+        {
+          isChange: true,
+          address: changeAddress,
+          amount: '4827063',
+          assets: [],
+        },
+      ],
+    },
+  },
+  {
+    description:
+      'stake registration and delegation of a multisig script credential',
+    utxos: [utxo1],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [
+      {
+        type: 11,
+        stakingScriptHash:
+          'd94bff7d648f0c1f76ed85fb7346aa06834eeff977e13c0f3287711d',
+        // all of 2 keys
+        nativeScript:
+          '8201828200581cfb52d305d2a4d2a7d3bb1d8b1e4f1cf3cae0b2c47b49e7e0f1d1c3b28200581c0f292fcaa02b8b2f9b3c8f9fd8e0bb21abedb692a6d5058df3ef2735',
+        pool: '0f292fcaa02b8b2f9b3c8f9fd8e0bb21abedb692a6d5058df3ef2735',
+      },
+    ] as Certificate[],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { protocolParameters: { era: 'conway' as const } },
+    result: {
+      totalSpent: '2180769',
+      fee: '180769',
+      deposit: '2000000',
+      outputs: [
+        {
+          isChange: true,
+          address: changeAddress,
+          amount: '2819231',
+          assets: [],
+        },
+      ],
+    },
+  },
+  {
+    description:
+      'stake registration of a script credential in Babbage era without witness',
+    utxos: [utxo1],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [
+      {
+        type: 0,
+        stakingScriptHash:
+          'd94bff7d648f0c1f76ed85fb7346aa06834eeff977e13c0f3287711d',
+      },
+    ] as Certificate[],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { protocolParameters: { era: 'babbage' as const } },
+    result: {
+      totalSpent: '2166777',
+      fee: '166777',
+      deposit: '2000000',
+      outputs: [
+        {
+          isChange: true,
+          address: changeAddress,
+          amount: '2833223',
+          assets: [],
+        },
+      ],
+    },
+  },
+  {
+    description: 'stake deregistration',
+    utxos: [utxo1],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [
+      {
+        type: 1,
+      },
+    ] as Certificate[],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: {},
+    result: {
+      totalSpent: '171221',
+      fee: '171221',
+      inputs: [utxo1],
+      outputs: [
+        {
+          isChange: true,
+          address: changeAddress,
+          amount: '6828779',
+          assets: [],
+        },
+      ],
+    },
+  },
+  {
+    description:
+      'multiple utxos (including multi asset), 2 user defined outputs (ADA only) + 1 change output (with an asset)',
+    utxos: [
+      {
+        address:
+          'addr1q9vf2uqwv9cx23rsfeqqa4g9rv8s2ha464sycdwpzdhm7ana9nxu0t6xjurg0qqcwwdulh56uglsp8z2uw9wuzjtfuaqka2l2d',
+        txHash:
+          '1bfb8b1d06bd28fb33493afaa5b22dec02bb8e292bbd7a6965c9037b5964a808',
+        outputIndex: 1,
+        amount: [
+          {
+            quantity: '3831173306',
+            unit: 'lovelace',
+          },
+          {
+            quantity: '998900',
+            unit: '02477d7c23b4c2834b0be8ca8578dde47af0cc82a964688f6fc95a7a47524943',
+          },
+        ],
+      },
+      {
+        address:
+          'addr1qydd8kf2vtzv05y703kvsq0tcrgnwynqemxkp7rw4nwnq2ma9nxu0t6xjurg0qqcwwdulh56uglsp8z2uw9wuzjtfuaqqdz40d',
+        txHash:
+          '064ebc7096680b94de4e1c014938ea44886829c08ec01025578104b7b60d6bcf',
+        outputIndex: 1,
+        amount: [
+          {
+            quantity: '848035104',
+            unit: 'lovelace',
+          },
+        ],
+      },
+      {
+        address:
+          'addr1q80vvrk4syazwl6w706ah9rgzvr5heq6hq2tjqxxu3x8wnma9nxu0t6xjurg0qqcwwdulh56uglsp8z2uw9wuzjtfuaqvmacgp',
+        txHash:
+          'd49c08164d3f2abc1a2e1b16a2c81122240a99bb6bd2f8d33628048df7529adc',
+        outputIndex: 1,
+        amount: [
+          {
+            quantity: '1180285694',
+            unit: 'lovelace',
+          },
+        ],
+      },
+      {
+        address:
+          'addr1q984228shp7a6m0xrj39k7uuvcpsqt2dkjn8r6lvrpnmdfna9nxu0t6xjurg0qqcwwdulh56uglsp8z2uw9wuzjtfuaq77p62n',
+        txHash:
+          'ca0bad48270c5345bbcce7a850f545be5582a780d5a0337385d1b7413dfc60e3',
+        outputIndex: 0,
+        amount: [
+          {
+            quantity: '2000000',
+            unit: 'lovelace',
+          },
+        ],
+      },
+    ],
+    outputs: [
+      {
+        address:
+          'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+        amount: '1000000',
+        assets: [],
+        setMax: false,
+      },
+      {
+        address:
+          'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+        amount: '2000000',
+        assets: [],
+        setMax: false,
+      },
+    ],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: {},
+    result: {
+      totalSpent: '3172805',
+      fee: '172805',
+      inputs: [
+        {
+          address:
+            'addr1q9vf2uqwv9cx23rsfeqqa4g9rv8s2ha464sycdwpzdhm7ana9nxu0t6xjurg0qqcwwdulh56uglsp8z2uw9wuzjtfuaqka2l2d',
+          txHash:
+            '1bfb8b1d06bd28fb33493afaa5b22dec02bb8e292bbd7a6965c9037b5964a808',
+          outputIndex: 1,
+          amount: [
+            {
+              quantity: '3831173306',
+              unit: 'lovelace',
+            },
+            {
+              quantity: '998900',
+              unit: '02477d7c23b4c2834b0be8ca8578dde47af0cc82a964688f6fc95a7a47524943',
+            },
+          ],
+        },
+      ],
+      outputs: [
+        {
+          address:
+            'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+          amount: '1000000',
+          assets: [],
+          setMax: false,
+        },
+        {
+          address:
+            'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+          amount: '2000000',
+          assets: [],
+          setMax: false,
+        },
+        {
+          amount: '3828000501',
+          isChange: true,
+          address: changeAddress,
+          assets: [
+            {
+              unit: '02477d7c23b4c2834b0be8ca8578dde47af0cc82a964688f6fc95a7a47524943',
+              quantity: '998900',
+            },
+          ],
+        },
+      ],
+    },
+  },
+  {
+    description: 'Correctly recalculate change output after set max on token',
+    utxos: [
+      {
+        address:
+          'addr_test1qzhts48qcr2s76qcrh4rvwwah5xc52g7fr4xtzfzq9ffxme9j9xney949w6u957hfn5r7gmlh789208l4g9cal4m9p3qyt8vq9',
+        txHash:
+          'd8ff7a39d1daf80ae2e99351c51fbb823f223e717cee09d23bc1b2691092632d',
+        outputIndex: 0,
+        amount: [
+          {
+            quantity: '1344798',
             unit: 'lovelace',
           },
           {
@@ -1033,100 +1999,381 @@ export const coinSelection = [
     ],
     changeAddress: changeAddress,
     certificates: [],
-    withdrawals: [],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: {},
+    result: {
+      totalSpent: '2488115',
+      fee: '182265',
+      inputs: [
+        {
+          address:
+            'addr_test1qzhts48qcr2s76qcrh4rvwwah5xc52g7fr4xtzfzq9ffxme9j9xney949w6u957hfn5r7gmlh789208l4g9cal4m9p3qyt8vq9',
+          txHash:
+            '05cf0d8c9824b6e1bf403329d159cc57d89b4c22d93835bbdee46687f7c69c69',
+          outputIndex: 0,
+          amount: [
+            {
+              quantity: '1344798',
+              unit: 'lovelace',
+            },
+            {
+              quantity: '1',
+              unit: '4f740e06506c0b8a1584760780ce3c61aea3b6061d5596d580e9aae66265726e617264',
+            },
+          ],
+        },
+        {
+          address:
+            'addr_test1qq6r7mgs3q42n8ja7sf9wkn747lnttke2zx7khdrc5a2e4p9j9xney949w6u957hfn5r7gmlh789208l4g9cal4m9p3q83lu76',
+          txHash:
+            '280c49a69c0fc24c3fdcdbcdd4030da3533a87e4378639bcd4a8841b3d2c6e21',
+          outputIndex: 2,
+          amount: [
+            {
+              quantity: '1344798',
+              unit: 'lovelace',
+            },
+          ],
+        },
+        {
+          address:
+            'addr_test1qzhts48qcr2s76qcrh4rvwwah5xc52g7fr4xtzfzq9ffxme9j9xney949w6u957hfn5r7gmlh789208l4g9cal4m9p3qyt8vq9',
+          txHash:
+            'd8ff7a39d1daf80ae2e99351c51fbb823f223e717cee09d23bc1b2691092632d',
+          outputIndex: 0,
+          amount: [
+            {
+              quantity: '1344798',
+              unit: 'lovelace',
+            },
+            {
+              quantity: '1',
+              unit: '3b746b6a5f8c43acc6bed9259ff7fc5f0b9e0be8adc3d63edfea98c77072657373757265',
+            },
+          ],
+        },
+      ],
+      outputs: [
+        {
+          address:
+            'addr_test1qztq45fff6e84v0qctnzpg86lny8zf7nx0lmn47p3msk5tvw8qpyux7tm435rjuk5dqr6kny4ks9w7vqjnfrsvtjk82quqe75s',
+          amount: '1155080',
+          assets: [
+            {
+              quantity: '1',
+              unit: '3b746b6a5f8c43acc6bed9259ff7fc5f0b9e0be8adc3d63edfea98c77072657373757265',
+            },
+          ],
+          setMax: false,
+        },
+        {
+          address:
+            'addr_test1qztq45fff6e84v0qctnzpg86lny8zf7nx0lmn47p3msk5tvw8qpyux7tm435rjuk5dqr6kny4ks9w7vqjnfrsvtjk82quqe75s',
+          amount: '1150770',
+          assets: [
+            {
+              quantity: '1',
+              unit: '4f740e06506c0b8a1584760780ce3c61aea3b6061d5596d580e9aae66265726e617264',
+            },
+          ],
+          setMax: true,
+        },
+        {
+          address:
+            'addr1q8u2f05rprqjhygz22m06mhy4xrnqvqqpyuzhmxqfxnwvxz8d2kd47hsre5v9urjyu8s0ryk38dxzw0t5jesncw4v90s22tk0f',
+          amount: '1546279',
+          assets: [],
+          isChange: true,
+        },
+      ],
+    },
+  },
+];
+
+export const exceptions = [
+  {
+    description: 'Vote before Conway',
+    utxos: [utxo1],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [],
+    votes: [
+      {
+        voter: { type: 2 },
+        govActionId: {
+          txHash:
+            '3b40265111d8bb3c3c608d95b3a0bf83461ace32d79336579a1939b3aad1c0b7',
+          index: 0,
+        },
+        vote: 1,
+      },
+    ] as Vote[],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { protocolParameters: { era: 'babbage' as const } },
+    result: 'UNSUPPORTED_ERA',
+  },
+  {
+    description: 'Vote of a script DRep without the native script',
+    utxos: [utxo1],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [],
+    votes: [
+      {
+        voter: {
+          type: 3,
+          hash: '6b6c3fd73732187810b1e68e325e4092587a0d052f1d3387ae9250ed',
+        },
+        govActionId: {
+          txHash:
+            '3b40265111d8bb3c3c608d95b3a0bf83461ace32d79336579a1939b3aad1c0b7',
+          index: 0,
+        },
+        vote: 0,
+      },
+    ] as Vote[],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { protocolParameters: { era: 'conway' as const } },
+    result: 'SCRIPT_WITNESS_MISSING',
+  },
+  {
+    description: 'Proposal before Conway',
+    utxos: [utxo1],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [],
+    proposals: [
+      {
+        action: { type: 6 },
+        returnAddress:
+          'stake1u8a495c9tgar5v3cecse507p8ljds7ta2p3w3h2xwrra9xcff7snp',
+        anchor: {
+          url: 'https://example.com/proposal.json',
+          hash: '9e4d2c0b6ac6a5e4a1d1a8e2e9e8b8bd4c9e2e1f7a3b5c6d8e9f0a1b2c3d4e5f',
+        },
+      },
+    ] as Proposal[],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: {
+      protocolParameters: { era: 'babbage' as const, govActionDeposit: '0' },
+    },
+    result: 'UNSUPPORTED_ERA',
+  },
+  {
+    description: 'Proposal returning the deposit to a base address',
+    utxos: [utxo1],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [],
+    proposals: [
+      {
+        action: { type: 6 },
+        returnAddress: changeAddress,
+        anchor: {
+          url: 'https://example.com/proposal.json',
+          hash: '9e4d2c0b6ac6a5e4a1d1a8e2e9e8b8bd4c9e2e1f7a3b5c6d8e9f0a1b2c3d4e5f',
+        },
+      },
+    ] as Proposal[],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { protocolParameters: { era: 'conway' as const } },
+    result: 'INVALID_REWARD_ADDRESS',
+  },
+  {
+    description: 'Governance action deposit not covered by utxos',
+    utxos: [utxo1],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [],
+    proposals: [
+      {
+        action: { type: 6 },
+        returnAddress:
+          'stake1u8a495c9tgar5v3cecse507p8ljds7ta2p3w3h2xwrra9xcff7snp',
+        anchor: {
+          url: 'https://example.com/proposal.json',
+          hash: '9e4d2c0b6ac6a5e4a1d1a8e2e9e8b8bd4c9e2e1f7a3b5c6d8e9f0a1b2c3d4e5f',
+        },
+      },
+    ] as Proposal[],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { protocolParameters: { era: 'conway' as const } },
+    result: 'UTXO_BALANCE_INSUFFICIENT',
+  },
+  {
+    description: 'DRep certificate before Conway',
+    utxos: [utxo1],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [{ type: 16 }] as Certificate[],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { protocolParameters: { era: 'babbage' as const } },
+    result: 'UNSUPPORTED_CERTIFICATE_TYPE',
+  },
+  {
+    description: 'Vote delegation before Conway',
+    utxos: [utxo1],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [{ type: 9, drep: { type: 2 } }] as Certificate[],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { protocolParameters: { era: 'babbage' as const } },
+    result: 'UNSUPPORTED_CERTIFICATE_TYPE',
+  },
+  {
+    description:
+      'Stake delegation of a script credential without the native script',
+    utxos: [utxo1],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [
+      {
+        type: 2,
+        stakingScriptHash:
+          'd94bff7d648f0c1f76ed85fb7346aa06834eeff977e13c0f3287711d',
+        pool: '0f292fcaa02b8b2f9b3c8f9fd8e0bb21abedb692a6d5058df3ef2735',
+      },
+    ] as Certificate[],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: {},
+    result: 'SCRIPT_WITNESS_MISSING',
+  },
+  {
+    description:
+      'Withdrawal of a script reward address without the native script (Plutus)',
+    utxos: [utxo1],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [
+      {
+        amount: '10000000',
+        stakeAddress:
+          'stake178v5hlmavj8sc8mkakzlku6x4grgxnh0l9m7z0q0x2rhz8gnxz6gx',
+      },
+    ],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: {},
+    result: 'UNSUPPORTED_PLUTUS_SCRIPT',
+  },
+  {
+    description:
+      'Withdrawal of a script reward address with another native script',
+    utxos: [utxo1],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [
+      {
+        amount: '10000000',
+        stakeAddress:
+          'stake178v5hlmavj8sc8mkakzlku6x4grgxnh0l9m7z0q0x2rhz8gnxz6gx',
+        nativeScript:
+          '8200581cfb52d305d2a4d2a7d3bb1d8b1e4f1cf3cae0b2c47b49e7e0f1d1c3b2',
+      },
+    ],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: {},
+    result: 'SCRIPT_WITNESS_MISSING',
+  },
+  {
+    description: 'Withdrawal address is not a reward address',
+    utxos: [utxo1],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [
+      {
+        amount: '10000000',
+        stakeAddress:
+          'addr1q860vxljhadqxnrrsr2j6yxnwpdkyquq74lmghx502aj0r28d2kd47hsre5v9urjyu8s0ryk38dxzw0t5jesncw4v90sp0878u',
+      },
+    ],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: {},
+    result: 'INVALID_REWARD_ADDRESS',
+  },
+  {
+    description: 'Multiple withdrawals from the same reward address',
+    utxos: [utxo1],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [
+      {
+        amount: '10000000',
+        stakeAddress:
+          'stake1u8yk3dcuj8yylwvnzz953yups6mmuvt0vtjmxl2gmgceqjqz2yfd2',
+      },
+      {
+        amount: '10000000',
+        stakeAddress:
+          'stake1u8yk3dcuj8yylwvnzz953yups6mmuvt0vtjmxl2gmgceqjqz2yfd2',
+      },
+    ],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: {},
+    result: 'DUPLICATE_WITHDRAWAL',
+  },
+  {
+    description: 'Withdrawal address of another stake key than stakeKeyIndex',
+    utxos: [utxo1],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [
+      {
+        amount: '10000000',
+        stakeKeyIndex: 2,
+        stakeAddress:
+          'stake1uxcvg6ffcpj5w6lkl8pu794kv95g3zelvp9un9l5llfggwcchem60',
+      },
+    ],
     accountPubKey:
       'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
     options: {},
-    result: {
-      totalSpent: '2488115',
-      fee: '182265',
-      inputs: [
-        {
-          address:
-            'addr_test1qzhts48qcr2s76qcrh4rvwwah5xc52g7fr4xtzfzq9ffxme9j9xney949w6u957hfn5r7gmlh789208l4g9cal4m9p3qyt8vq9',
-          txHash:
-            '05cf0d8c9824b6e1bf403329d159cc57d89b4c22d93835bbdee46687f7c69c69',
-          outputIndex: 0,
-          amount: [
-            {
-              quantity: '1344798',
-              unit: 'lovelace',
-            },
-            {
-              quantity: '1',
-              unit: '4f740e06506c0b8a1584760780ce3c61aea3b6061d5596d580e9aae66265726e617264',
-            },
-          ],
-        },
-        {
-          address:
-            'addr_test1qq6r7mgs3q42n8ja7sf9wkn747lnttke2zx7khdrc5a2e4p9j9xney949w6u957hfn5r7gmlh789208l4g9cal4m9p3q83lu76',
-          txHash:
-            '280c49a69c0fc24c3fdcdbcdd4030da3533a87e4378639bcd4a8841b3d2c6e21',
-          outputIndex: 2,
-          amount: [
-            {
-              quantity: '1344798',
-              unit: 'lovelace',
-            },
-          ],
-        },
-        {
-          address:
-            'addr_test1qzhts48qcr2s76qcrh4rvwwah5xc52g7fr4xtzfzq9ffxme9j9xney949w6u957hfn5r7gmlh789208l4g9cal4m9p3qyt8vq9',
-          txHash:
-            'd8ff7a39d1daf80ae2e99351c51fbb823f223e717cee09d23bc1b2691092632d',
-          outputIndex: 0,
-          amount: [
-            {
-              quantity: '1344798',
-              unit: 'lovelace',
-            },
-            {
-              quantity: '1',
-              unit: '3b746b6a5f8c43acc6bed9259ff7fc5f0b9e0be8adc3d63edfea98c77072657373757265',
-            },
-          ],
-        },
-      ],
-      outputs: [
-        {
-          address:
-            'addr_test1qztq45fff6e84v0qctnzpg86lny8zf7nx0lmn47p3msk5tvw8qpyux7tm435rjuk5dqr6kny4ks9w7vqjnfrsvtjk82quqe75s',
-          amount: '1155080',
-          assets: [
-            {
-              quantity: '1',
-              unit: '3b746b6a5f8c43acc6bed9259ff7fc5f0b9e0be8adc3d63edfea98c77072657373757265',
-            },
-          ],
-          setMax: false,
-        },
-        {
-          address:
-            'addr_test1qztq45fff6e84v0qctnzpg86lny8zf7nx0lmn47p3msk5tvw8qpyux7tm435rjuk5dqr6kny4ks9w7vqjnfrsvtjk82quqe75s',
-          amount: '1150770',
-          assets: [
-            {
-              quantity: '1',
-              unit: '4f740e06506c0b8a1584760780ce3c61aea3b6061d5596d580e9aae66265726e617264',
-            },
-          ],
-          setMax: true,
-        },
-        {
-          address:
-            'addr1q8u2f05rprqjhygz22m06mhy4xrnqvqqpyuzhmxqfxnwvxz8d2kd47hsre5v9urjyu8s0ryk38dxzw0t5jesncw4v90s22tk0f',
-          amount: '1546279',
-          assets: [],
-          isChange: true,
-        },
-      ],
-    },
+    result: 'INVALID_REWARD_ADDRESS',
+  },
+  {
+    description: 'DRep script hash without the native script',
+    utxos: [utxo1],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [
+      {
+        type: 18,
+        drepScriptHash:
+          '6b6c3fd73732187810b1e68e325e4092587a0d052f1d3387ae9250ed',
+      },
+    ] as Certificate[],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { protocolParameters: { era: 'conway' as const } },
+    result: 'SCRIPT_WITNESS_MISSING',
   },
-];
-
-export const exceptions = [
   {
     description: 'Not enough utxos to cover an output amount',
     utxos: [utxo1],
@@ -1231,6 +2478,31 @@ export const exceptions = [
     options: {},
     result: 'UTXO_BALANCE_INSUFFICIENT',
   },
+  {
+    description: 'Reference scripts of the inputs exceed 200 KiB',
+    utxos: [
+      prepareUtxo(utxo1, { referenceScriptSize: 150000 }),
+      prepareUtxo(utxo3, { referenceScriptSize: 100000 }),
+    ],
+    outputs: [
+      {
+        address:
+          'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+        amount: '12000000',
+        assets: [],
+        setMax: false,
+      },
+    ],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: {
+      protocolParameters: { minFeeRefScriptCostPerByte: '1' },
+    },
+    result: 'REF_SCRIPTS_TOO_BIG',
+  },
 ];
 
 export const params = [
@@ -1281,3 +2553,174 @@ export const params = [
     },
   },
 ];
+
+export const txSizeLimitExceptions = [
+  {
+    description: 'Dust utxos cannot cover the output within the max tx size',
+    utxos: prepareDustUtxos(600),
+    outputs: [
+      {
+        address:
+          'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+        amount: '550000000',
+        assets: [],
+        setMax: false,
+      },
+    ],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: {},
+    result: 'TX_TOO_BIG',
+  },
+  {
+    description:
+      'Max tx size is enforced also if the fee does not depend on the size',
+    utxos: prepareDustUtxos(600),
+    outputs: [
+      {
+        address:
+          'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+        amount: '550000000',
+        assets: [],
+        setMax: false,
+      },
+    ],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { protocolParameters: { minFeeA: '0' } },
+    result: 'TX_TOO_BIG',
+  },
+  {
+    description:
+      'Custom strategy picking the smallest utxos exceeds the max tx size, although the largest utxo would fit',
+    utxos: [
+      ...prepareDustUtxos(600),
+      prepareUtxo(utxo1, {
+        txHash:
+          'ffff8acb799a37a4f1cc99bec7626637b0b80626b9ef7c7a687282cab701178d',
+        amount: [{ quantity: '1000000000', unit: 'lovelace' }],
+      }),
+    ],
+    outputs: [
+      {
+        address:
+          'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+        amount: '500000000',
+        assets: [],
+        setMax: false,
+      },
+    ],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: {
+      selectionStrategy: {
+        selectNext: ({ utxos }: SelectionStrategyContext): Utxo =>
+          utxos.reduce((smallest, utxo) =>
+            Number(utxo.amount[0].quantity) <
+            Number(smallest.amount[0].quantity)
+              ? utxo
+              : smallest,
+          ),
+      },
+    },
+    result: 'TX_TOO_BIG',
+  },
+];
+
+// block heights of the utxos, known to the wallet
+const utxoHeights: Record<number, number> = {
+  [utxo1.outputIndex]: 200,
+  [utxo3.outputIndex]: 300,
+  [utxo4.outputIndex]: 100,
+  [utxo5.outputIndex]: 400,
+};
+
+const oldestFirstStrategy: SelectionStrategy = {
+  selectNext: ({ utxos }) =>
+    [...utxos].sort(
+      (u1, u2) => utxoHeights[u1.outputIndex] - utxoHeights[u2.outputIndex],
+    )[0],
+};
+
+export const customStrategy = [
+  {
+    description: 'Custom strategy selects the oldest utxos first',
+    utxos: [utxo1, utxo3, utxo4, utxo5],
+    outputs: [
+      {
+        address:
+          'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+        amount: '3000000',
+        assets: [],
+        setMax: false,
+      },
+    ],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { selectionStrategy: oldestFirstStrategy },
+    result: {
+      inputs: [utxo1, utxo4],
+    },
+  },
+  {
+    description: 'Custom strategy with setMax output',
+    utxos: [utxo1, utxo3, utxo4, utxo5],
+    outputs: [
+      {
+        address:
+          'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+        amount: undefined,
+        assets: [],
+        setMax: true,
+      },
+    ],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { selectionStrategy: oldestFirstStrategy },
+    result: {
+      max: '17830055',
+    },
+  },
+];
+
+export const customStrategyExceptions = [
+  {
+    description: 'Custom strategy picks a utxo which is not available',
+    utxos: [utxo1],
+    outputs: [
+      {
+        address:
+          'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+        amount: '3000000',
+        assets: [],
+        setMax: false,
+      },
+    ],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: {
+      selectionStrategy: {
+        selectNext: (): Utxo => utxo3,
+      },
+    },
+    result: 'Selection strategy picked an unavailable utxo',
+  },
+];
@@ -0,0 +1,87 @@
+import {
+  changeAddress,
+  utxo1,
+  utxo2,
+  utxo3,
+  utxo4,
+  utxo5,
+  utxo6,
+  utxo7,
+} from '../../fixtures/constants';
+
+export const coinSelection = [
+  {
+    description: 'Lowest fee across all algorithms',
+    utxos: [utxo1, utxo2, utxo3, utxo4, utxo5, utxo6, utxo7],
+    outputs: [
+      {
+        address:
+          'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+        amount: '7000000',
+        assets: [],
+        setMax: false,
+      },
+    ],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { optimize: { objective: 'fee' as const, runs: 5 }, seed: 1 },
+    result: {
+      // non-deterministic, we rely on sanity check
+    },
+  },
+  {
+    description: 'Fewest inputs, largest-first wins with a single utxo',
+    utxos: [utxo1, utxo3, utxo4, utxo5],
+    outputs: [
+      {
+        address:
+          'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+        amount: '8000000',
+        assets: [],
+        setMax: false,
+      },
+    ],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: {
+      optimize: {
+        objective: 'inputs' as const,
+        runs: 3,
+        algorithms: ['largest-first' as const],
+      },
+    },
+    result: {
+      inputs: [utxo3],
+      optimization: { algorithm: 'largest-first', run: 0 },
+    },
+  },
+];
+
+export const exceptions = [
+  {
+    description: 'Not enough utxos to cover an output amount in any run',
+    utxos: [utxo1],
+    outputs: [
+      {
+        address:
+          'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+        amount: '10000000',
+        assets: [],
+        setMax: false,
+      },
+    ],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { optimize: { runs: 2 }, seed: 1 },
+    result: 'UTXO_BALANCE_INSUFFICIENT',
+  },
+];
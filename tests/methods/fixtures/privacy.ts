@@ -0,0 +1,144 @@
+import {
+  changeAddress,
+  prepareUtxo,
+  utxo1,
+  utxo3,
+} from '../../fixtures/constants';
+
+// different address, but the same stake key as utxo1
+const utxoSameStakeKey = prepareUtxo(utxo1, {
+  address: changeAddress,
+  outputIndex: 10,
+  amount: [{ quantity: '8000000', unit: 'lovelace' }],
+});
+
+const utxoOtherAddress = prepareUtxo(utxo1, {
+  address:
+    'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+  outputIndex: 11,
+  amount: [{ quantity: '50000000', unit: 'lovelace' }],
+});
+
+const utxoTokens = prepareUtxo(utxo1, {
+  address:
+    'addr1qy4xpnf4lk560dgrds5zsunh6xdssg94c5sc8dqdclcn2fdl85agr52j3ffkwzq2yasu59ccwvfj39kel85ng3u7lhlq4e4m4l',
+  outputIndex: 12,
+  amount: [
+    { quantity: '10000000', unit: 'lovelace' },
+    {
+      quantity: '1000',
+      unit: '02477d7c23b4c2834b0be8ca8578dde47af0cc82a964688f6fc95a7a47524943',
+    },
+  ],
+});
+
+export const coinSelection = [
+  {
+    description: 'Single address covers the output',
+    utxos: [utxo1, utxo3, utxoSameStakeKey, utxoOtherAddress, utxoTokens],
+    outputs: [
+      {
+        address:
+          'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+        amount: '7000000',
+        assets: [],
+        setMax: false,
+      },
+    ],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { privacy: 'address' as const, seed: 1 },
+    result: { groups: 1 },
+  },
+  {
+    description: 'Output needs utxos from 2 addresses',
+    utxos: [utxo1, utxo3, utxoSameStakeKey, utxoOtherAddress, utxoTokens],
+    outputs: [
+      {
+        address:
+          'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+        amount: '55000000',
+        assets: [],
+        setMax: false,
+      },
+    ],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { privacy: 'address' as const, seed: 1 },
+    result: { groups: 2 },
+  },
+  {
+    description: 'Addresses with the same stake key are a single group',
+    utxos: [utxo1, utxo3, utxoSameStakeKey, utxoTokens],
+    outputs: [
+      {
+        address:
+          'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+        amount: '20000000',
+        assets: [],
+        setMax: false,
+      },
+    ],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { privacy: 'stake-key' as const, seed: 1 },
+    result: { groups: 1 },
+  },
+  {
+    description: 'Address holding the token is preferred',
+    utxos: [utxo1, utxo3, utxoSameStakeKey, utxoOtherAddress, utxoTokens],
+    outputs: [
+      {
+        address:
+          'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+        amount: '2000000',
+        assets: [
+          {
+            quantity: '500',
+            unit: '02477d7c23b4c2834b0be8ca8578dde47af0cc82a964688f6fc95a7a47524943',
+          },
+        ],
+        setMax: false,
+      },
+    ],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { privacy: 'address' as const, seed: 1 },
+    result: { groups: 1 },
+  },
+];
+
+export const exceptions = [
+  {
+    description: 'Not enough utxos across all addresses',
+    utxos: [utxo1, utxo3, utxoSameStakeKey, utxoOtherAddress, utxoTokens],
+    outputs: [
+      {
+        address:
+          'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+        amount: '100000000',
+        assets: [],
+        setMax: false,
+      },
+    ],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { privacy: 'address' as const, seed: 1 },
+    result: 'UTXO_BALANCE_INSUFFICIENT',
+  },
+];
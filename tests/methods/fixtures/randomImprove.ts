@@ -1,5 +1,8 @@
+import { Certificate, Proposal, Vote } from '../../../src/types/types';
 import {
   changeAddress,
+  prepareDustUtxos,
+  prepareUtxo,
   utxo1,
   utxo2,
   utxo3,
@@ -134,7 +137,7 @@ export const nonFinalCompose = [
     withdrawals: [],
     accountPubKey:
       'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
-    options: {},
+    options: { seed: 1 },
     result: {
       totalSpent: '168053',
       fee: '168053',
@@ -156,7 +159,7 @@ export const nonFinalCompose = [
     withdrawals: [],
     accountPubKey:
       'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
-    options: {},
+    options: { seed: 1 },
     result: {
       totalSpent: '2168053',
       fee: '168053',
@@ -186,7 +189,7 @@ export const nonFinalCompose = [
     withdrawals: [],
     accountPubKey:
       'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
-    options: {},
+    options: { seed: 1 },
     result: {
       totalSpent: '6174301',
       fee: '174301',
@@ -214,7 +217,7 @@ export const coinSelection = [
     accountPubKey:
       'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
     ttl: 123456789,
-    options: {},
+    options: { seed: 1 },
     result: {
       ttl: 123456789,
       // non-deterministic, we rely on sanity check
@@ -239,7 +242,7 @@ export const coinSelection = [
     accountPubKey:
       'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
     ttl: undefined,
-    options: {},
+    options: { seed: 1 },
     result: {
       totalSpent: '2800000',
       fee: '800000',
@@ -292,7 +295,7 @@ export const coinSelection = [
     withdrawals: [],
     accountPubKey:
       'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
-    options: {},
+    options: { seed: 1 },
     result: {
       totalSpent: '2884313',
       fee: '194717',
@@ -364,6 +367,761 @@ export const coinSelection = [
       ],
     },
   },
+  {
+    description: 'withdrawing rewards: 1 ADA only utxo, 1 change output',
+    utxos: [utxo1],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [
+      {
+        amount: '10000000',
+        stakingPath: "m/1852'/1815'/0'/2/0",
+        stakeAddress:
+          'stake1u8yk3dcuj8yylwvnzz953yups6mmuvt0vtjmxl2gmgceqjqz2yfd2',
+      },
+    ],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { seed: 1 },
+    result: {
+      totalSpent: '171309',
+      fee: '171309',
+      inputs: [utxo1],
+      outputs: [
+        {
+          isChange: true,
+          address: changeAddress,
+          amount: '14828691',
+          assets: [],
+        },
+      ],
+    },
+  },
+  {
+    description: 'stake registration',
+    utxos: [utxo1],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [
+      {
+        type: 0,
+      },
+    ] as Certificate[],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { seed: 1 },
+    result: {
+      totalSpent: '2166777',
+      fee: '166777',
+      inputs: [utxo1],
+      outputs: [
+        {
+          isChange: true,
+          address: changeAddress,
+          amount: '2833223',
+          assets: [],
+        },
+      ],
+    },
+  },
+  {
+    description: 'stake delegation',
+    utxos: [utxo1],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [
+      {
+        type: 2 as const,
+
+        pool: '0f292fcaa02b8b2f9b3c8f9fd8e0bb21abedb692a6d5058df3ef2735',
+      },
+    ] as Certificate[],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { seed: 1 },
+    result: {
+      totalSpent: '172541',
+      fee: '172541',
+      inputs: [utxo1],
+      outputs: [
+        {
+          isChange: true,
+          address: changeAddress,
+          amount: '4827459',
+          assets: [],
+        },
+      ],
+    },
+  },
+  {
+    description: 'stake deregistration',
+    utxos: [utxo1],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [
+      {
+        type: 1,
+      },
+    ] as Certificate[],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { seed: 1 },
+    result: {
+      totalSpent: '171221',
+      fee: '171221',
+      inputs: [utxo1],
+      outputs: [
+        {
+          isChange: true,
+          address: changeAddress,
+          amount: '6828779',
+          assets: [],
+        },
+      ],
+    },
+  },
+  {
+    description:
+      'stake and vote registration and delegation to a DRep key hash',
+    utxos: [utxo1],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [
+      {
+        type: 13,
+        pool: '0f292fcaa02b8b2f9b3c8f9fd8e0bb21abedb692a6d5058df3ef2735',
+        drep: {
+          type: 0,
+          keyHash: 'fb52d305d2a4d2a7d3bb1d8b1e4f1cf3cae0b2c47b49e7e0f1d1c3b2',
+        },
+      },
+    ] as Certificate[],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { protocolParameters: { era: 'conway' as const }, seed: 1 },
+    result: {
+      totalSpent: '2174565',
+      fee: '174565',
+      deposit: '2000000',
+      outputs: [
+        {
+          isChange: true,
+          address: changeAddress,
+          amount: '2825435',
+          assets: [],
+        },
+      ],
+    },
+  },
+  {
+    description: 'stake deregistration, fee is paid from the refund',
+    utxos: [
+      prepareUtxo(utxo1, {
+        amount: [{ quantity: '150000', unit: 'lovelace' }],
+      }),
+    ],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [{ type: 1 }] as Certificate[],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { protocolParameters: { era: 'conway' as const }, seed: 1 },
+    result: {
+      totalSpent: '171837',
+      fee: '171837',
+      deposit: '-2000000',
+      outputs: [
+        {
+          isChange: true,
+          address: changeAddress,
+          amount: '1978163',
+          assets: [],
+        },
+      ],
+    },
+  },
+  {
+    description:
+      'stake registration and delegation of a multisig script credential',
+    utxos: [utxo1],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [
+      {
+        type: 11,
+        stakingScriptHash:
+          'd94bff7d648f0c1f76ed85fb7346aa06834eeff977e13c0f3287711d',
+        // all of 2 keys
+        nativeScript:
+          '8201828200581cfb52d305d2a4d2a7d3bb1d8b1e4f1cf3cae0b2c47b49e7e0f1d1c3b28200581c0f292fcaa02b8b2f9b3c8f9fd8e0bb21abedb692a6d5058df3ef2735',
+        pool: '0f292fcaa02b8b2f9b3c8f9fd8e0bb21abedb692a6d5058df3ef2735',
+      },
+    ] as Certificate[],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { protocolParameters: { era: 'conway' as const }, seed: 1 },
+    result: {
+      totalSpent: '2180769',
+      fee: '180769',
+      deposit: '2000000',
+      outputs: [
+        {
+          isChange: true,
+          address: changeAddress,
+          amount: '2819231',
+          assets: [],
+        },
+      ],
+    },
+  },
+  {
+    description: 'withdrawing rewards of a multisig script reward address',
+    utxos: [utxo1],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [
+      {
+        amount: '10000000',
+        stakeAddress:
+          'stake178v5hlmavj8sc8mkakzlku6x4grgxnh0l9m7z0q0x2rhz8gnxz6gx',
+        // all of 2 keys
+        nativeScript:
+          '8201828200581cfb52d305d2a4d2a7d3bb1d8b1e4f1cf3cae0b2c47b49e7e0f1d1c3b28200581c0f292fcaa02b8b2f9b3c8f9fd8e0bb21abedb692a6d5058df3ef2735',
+      },
+    ],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { protocolParameters: { era: 'conway' as const }, seed: 1 },
+    result: {
+      totalSpent: '179185',
+      fee: '179185',
+      outputs: [
+        {
+          isChange: true,
+          address: changeAddress,
+          amount: '14820815',
+          assets: [],
+        },
+      ],
+    },
+  },
+  {
+    description:
+      'multi-delegation: stake keys 0 and 1 delegated to different pools',
+    utxos: [
+      prepareUtxo(utxo1, {
+        amount: [{ quantity: '10000000', unit: 'lovelace' }],
+      }),
+    ],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [
+      {
+        type: 11,
+        pool: '0f292fcaa02b8b2f9b3c8f9fd8e0bb21abedb692a6d5058df3ef2735',
+      },
+      {
+        type: 11,
+        stakeKeyIndex: 1,
+        pool: 'fb52d3055a3a3a3238ce219a3fc13fe4d8797d5062e8dd4670c7d29b',
+      },
+    ] as Certificate[],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { protocolParameters: { era: 'conway' as const }, seed: 1 },
+    result: {
+      totalSpent: '4180637',
+      fee: '180637',
+      deposit: '4000000',
+      outputs: [
+        {
+          isChange: true,
+          address: changeAddress,
+          amount: '5819363',
+          assets: [],
+        },
+      ],
+    },
+  },
+  {
+    description: 'DRep deregistration, deposit is refunded',
+    utxos: [utxo1],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [{ type: 17 }] as Certificate[],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { protocolParameters: { era: 'conway' as const }, seed: 1 },
+    result: {
+      totalSpent: '171837',
+      fee: '171837',
+      deposit: '-500000000',
+      outputs: [
+        {
+          isChange: true,
+          address: changeAddress,
+          amount: '504828163',
+          assets: [],
+        },
+      ],
+    },
+  },
+  {
+    description: 'DRep vote of the DRep key derived from the account',
+    utxos: [utxo1],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [],
+    votes: [
+      {
+        voter: { type: 2 },
+        govActionId: {
+          txHash:
+            '3b40265111d8bb3c3c608d95b3a0bf83461ace32d79336579a1939b3aad1c0b7',
+          index: 0,
+        },
+        vote: 1,
+        anchor: {
+          url: 'https://example.com/rationale.json',
+          hash: '9e4d2c0b6ac6a5e4a1d1a8e2e9e8b8bd4c9e2e1f7a3b5c6d8e9f0a1b2c3d4e5f',
+        },
+      },
+    ] as Vote[],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { protocolParameters: { era: 'conway' as const }, seed: 1 },
+    result: {
+      totalSpent: '176237',
+      fee: '176237',
+      deposit: '0',
+      outputs: [
+        {
+          isChange: true,
+          address: changeAddress,
+          amount: '4823763',
+          assets: [],
+        },
+      ],
+    },
+  },
+  {
+    description: 'Info action proposal, deposit is funded by multiple utxos',
+    utxos: [
+      prepareUtxo(utxo1, {
+        amount: [{ quantity: '60000000000', unit: 'lovelace' }],
+      }),
+      prepareUtxo(utxo2, {
+        amount: [{ quantity: '40010000000', unit: 'lovelace' }],
+      }),
+    ],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [],
+    proposals: [
+      {
+        action: { type: 6 },
+        returnAddress:
+          'stake1u8a495c9tgar5v3cecse507p8ljds7ta2p3w3h2xwrra9xcff7snp',
+        anchor: {
+          url: 'https://example.com/proposal.json',
+          hash: '9e4d2c0b6ac6a5e4a1d1a8e2e9e8b8bd4c9e2e1f7a3b5c6d8e9f0a1b2c3d4e5f',
+        },
+      },
+    ] as Proposal[],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { protocolParameters: { era: 'conway' as const }, seed: 1 },
+    result: {
+      totalSpent: '100000172233',
+      fee: '172233',
+      deposit: '100000000000',
+      depositBreakdown: { certificates: '0', proposals: '100000000000' },
+      outputs: [
+        {
+          isChange: true,
+          address: changeAddress,
+          amount: '9827767',
+          assets: [],
+        },
+      ],
+    },
+  },
+  {
+    description: 'stake registration and delegation, multiple utxos',
+    utxos: [utxo1, utxo3, utxo4, utxo5],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [
+      {
+        type: 0,
+      },
+      {
+        type: 2,
+        pool: '0f292fcaa02b8b2f9b3c8f9fd8e0bb21abedb692a6d5058df3ef2735',
+      },
+    ] as Certificate[],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { seed: 1 },
+    result: {
+      deposit: '2000000',
+      // non-deterministic, we rely on sanity check
+    },
+  },
+  {
+    description: 'stake registration, per-output selection',
+    utxos: [utxo1, utxo3, utxo4, utxo5],
+    outputs: [],
+    changeAddress: changeAddress,
+    certificates: [
+      {
+        type: 0,
+      },
+    ] as Certificate[],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { randomImprovePerOutput: true, seed: 1 },
+    result: {
+      deposit: '2000000',
+    },
+  },
+  {
+    description: 'set max on token output',
+    utxos: [utxo1, utxo7],
+    outputs: [
+      {
+        address:
+          'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+        amount: undefined,
+        assets: [
+          {
+            quantity: '',
+            unit: '02477d7c23b4c2834b0be8ca8578dde47af0cc82a964688f6fc95a7a47524943',
+          },
+        ],
+        setMax: true,
+      },
+    ],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { seed: 1 },
+    result: {
+      max: '1000',
+      totalSpent: '1317901',
+      fee: '171441',
+      inputs: [utxo1, utxo7],
+      outputs: [
+        {
+          address:
+            'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+          amount: '1146460',
+          assets: [
+            {
+              quantity: '1000',
+              unit: '02477d7c23b4c2834b0be8ca8578dde47af0cc82a964688f6fc95a7a47524943',
+            },
+          ],
+          setMax: true,
+        },
+        {
+          isChange: true,
+          address: changeAddress,
+          amount: '5092099',
+          assets: [],
+        },
+      ],
+    },
+  },
+  {
+    description:
+      'set max on token output, all utxos with the token are used, another output sends part of the token',
+    utxos: [utxo1, utxo3, utxo4, utxo5, utxo6, utxo7],
+    outputs: [
+      {
+        address:
+          'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+        amount: '2000000',
+        assets: [
+          {
+            quantity: '500',
+            unit: '02477d7c23b4c2834b0be8ca8578dde47af0cc82a964688f6fc95a7a47524943',
+          },
+        ],
+        setMax: false,
+      },
+      {
+        address:
+          'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+        amount: undefined,
+        assets: [
+          {
+            quantity: '',
+            unit: '02477d7c23b4c2834b0be8ca8578dde47af0cc82a964688f6fc95a7a47524943',
+          },
+        ],
+        setMax: true,
+      },
+    ],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { seed: 1 },
+    result: {
+      max: '2500',
+      // non-deterministic, we rely on sanity check
+    },
+  },
+  {
+    description: 'reference script fee of the input (1000 bytes)',
+    utxos: [prepareUtxo(utxo1, { referenceScriptSize: 1000 })],
+    outputs: [
+      {
+        address:
+          'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+        amount: '2000000',
+        assets: [],
+        setMax: false,
+      },
+    ],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    ttl: undefined,
+    options: {
+      protocolParameters: {
+        minFeeA: '0',
+        minFeeB: '200000',
+        minFeeRefScriptCostPerByte: '100',
+        era: 'conway' as const,
+      },
+      seed: 1,
+    },
+    result: {
+      totalSpent: '2300000',
+      fee: '300000',
+      feeBreakdown: { txFee: '200000', referenceScriptFee: '100000' },
+      outputs: [
+        {
+          address:
+            'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+          amount: '2000000',
+          assets: [],
+          setMax: false,
+        },
+        {
+          isChange: true,
+          address: changeAddress,
+          amount: '2700000',
+          assets: [],
+        },
+      ],
+    },
+  },
+];
+
+export const perOutputCoinSelection = [
+  {
+    description: 'Per-output selection, 2 outputs covered independently',
+    utxos: [utxo1, utxo2, utxo3, utxo4, utxo5, utxo6, utxo7],
+    outputs: [
+      {
+        address:
+          'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+        amount: '7000000',
+        assets: [],
+        setMax: false,
+      },
+      {
+        address:
+          'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+        amount: '1500000',
+        assets: [],
+        setMax: false,
+      },
+    ],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { randomImprovePerOutput: true, seed: 1 },
+  },
+  {
+    description: 'Per-output selection, output with a token',
+    utxos: [utxo1, utxo2, utxo3, utxo4, utxo5, utxo6, utxo7],
+    outputs: [
+      {
+        address:
+          'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+        amount: '2000000',
+        assets: [
+          {
+            unit: '02477d7c23b4c2834b0be8ca8578dde47af0cc82a964688f6fc95a7a47524943',
+            quantity: '1500',
+          },
+        ],
+        setMax: false,
+      },
+      {
+        address:
+          'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+        amount: '3000000',
+        assets: [],
+        setMax: false,
+      },
+    ],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { randomImprovePerOutput: true, seed: 1 },
+  },
+  {
+    description:
+      'Per-output selection, tokens are selected in descending order of the token quantity',
+    utxos: [
+      utxo1,
+      utxo2,
+      utxo3,
+      utxo4,
+      utxo6,
+      utxo7,
+      prepareUtxo(utxo6, { outputIndex: 9 }),
+    ],
+    outputs: [
+      {
+        address:
+          'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+        amount: '5000000',
+        assets: [
+          {
+            unit: '02477d7c23b4c2834b0be8ca8578dde47af0cc82a964688f6fc95a7a47524943',
+            quantity: '500',
+          },
+        ],
+        setMax: false,
+      },
+      {
+        address:
+          'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+        amount: '2000000',
+        assets: [
+          {
+            unit: '02477d7c23b4c2834b0be8ca8578dde47af0cc82a964688f6fc95a7a47524943',
+            quantity: '2500',
+          },
+        ],
+        setMax: false,
+      },
+    ],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { randomImprovePerOutput: true, seed: 2 },
+  },
+  {
+    description:
+      'Per-output selection, each output is improved towards 200% of its amount',
+    utxos: prepareDustUtxos(24),
+    outputs: [
+      {
+        address:
+          'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+        amount: '5000000',
+        assets: [],
+        setMax: false,
+      },
+      {
+        address:
+          'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+        amount: '3000000',
+        assets: [],
+        setMax: false,
+      },
+    ],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { randomImprovePerOutput: true, seed: 3 },
+  },
+];
+
+export const seededCoinSelection = [
+  {
+    description: 'Same seed produces the same transaction',
+    utxos: [utxo1, utxo2, utxo3, utxo4, utxo5, utxo6, utxo7],
+    outputs: [
+      {
+        address:
+          'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+        amount: '7000000',
+        assets: [],
+        setMax: false,
+      },
+    ],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { seed: 12345 },
+  },
+];
+
+export const txSizeLimitCoinSelection = [
+  {
+    description:
+      'Largest utxo is preferred once the tx gets close to the max tx size',
+    utxos: [
+      ...prepareDustUtxos(600),
+      prepareUtxo(utxo1, {
+        txHash:
+          'ffff8acb799a37a4f1cc99bec7626637b0b80626b9ef7c7a687282cab701178d',
+        amount: [{ quantity: '1000000000', unit: 'lovelace' }],
+      }),
+    ],
+    outputs: [
+      {
+        address:
+          'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+        amount: '500000000',
+        assets: [],
+        setMax: false,
+      },
+    ],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { seed: 3 },
+  },
 ];
 
 export const exceptions = [
@@ -384,7 +1142,7 @@ export const exceptions = [
     withdrawals: [],
     accountPubKey:
       'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
-    options: {},
+    options: { seed: 1 },
     result: 'UTXO_BALANCE_INSUFFICIENT',
   },
   {
@@ -411,7 +1169,35 @@ export const exceptions = [
     withdrawals: [],
     accountPubKey:
       'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
-    options: {},
+    options: { seed: 1 },
+    result: 'UTXO_NOT_FRAGMENTED_ENOUGH',
+  },
+  {
+    description:
+      'Per-output selection, inputs consumed by the larger output do not leave enough for the other one',
+    utxos: [utxo3, utxo5],
+    outputs: [
+      {
+        address:
+          'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+        amount: '2000000',
+        assets: [],
+        setMax: false,
+      },
+      {
+        address:
+          'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+        amount: '2000000',
+        assets: [],
+        setMax: false,
+      },
+    ],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { randomImprovePerOutput: true, seed: 1 },
     result: 'UTXO_NOT_FRAGMENTED_ENOUGH',
   },
   {
@@ -432,7 +1218,47 @@ export const exceptions = [
     withdrawals: [],
     accountPubKey:
       'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
-    options: {},
+    options: { seed: 1 },
     result: 'UTXO_BALANCE_INSUFFICIENT',
   },
+  {
+    description: 'Dust utxos cannot cover the output within the max tx size',
+    utxos: prepareDustUtxos(600),
+    outputs: [
+      {
+        address:
+          'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+        amount: '550000000',
+        assets: [],
+        setMax: false,
+      },
+    ],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { seed: 1 },
+    result: 'TX_TOO_BIG',
+  },
+  {
+    description: 'setMax on an ADA output',
+    utxos: [utxo1, utxo2],
+    outputs: [
+      {
+        address:
+          'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+        amount: undefined,
+        assets: [],
+        setMax: true,
+      },
+    ],
+    changeAddress: changeAddress,
+    certificates: [],
+    withdrawals: [],
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    options: { seed: 1 },
+    result: 'UNSUPPORTED_SET_MAX_OUTPUT',
+  },
 ];
@@ -37,6 +37,8 @@ describe('coinSelection - largestFirst', () => {
         changeAddress,
         certificates,
         withdrawals,
+        votes,
+        proposals,
         accountPubKey,
         ttl,
       } = f;
@@ -47,6 +49,8 @@ describe('coinSelection - largestFirst', () => {
           changeAddress,
           certificates,
           withdrawals,
+          votes,
+          proposals,
           accountPubKey,
           ttl,
         },
@@ -66,6 +70,8 @@ describe('coinSelection - largestFirst', () => {
         changeAddress,
         certificates,
         withdrawals,
+        votes,
+        proposals,
         accountPubKey,
       } = f;
       const res = () =>
@@ -76,6 +82,8 @@ describe('coinSelection - largestFirst', () => {
             changeAddress,
             certificates,
             withdrawals,
+            votes,
+            proposals,
             accountPubKey,
           },
           f.options,
@@ -84,4 +92,33 @@ describe('coinSelection - largestFirst', () => {
       expect(res).toThrowError(expect.objectContaining({ code: f.result }));
     });
   });
+
+  fixtures.txSizeLimitExceptions.forEach(f => {
+    test(f.description, () => {
+      const res = () => largestFirst(f, f.options);
+
+      expect(res).toThrowError(
+        expect.objectContaining({
+          code: f.result,
+          details: {
+            txSize: expect.any(Number),
+          },
+        }),
+      );
+    });
+  });
+
+  fixtures.customStrategy.forEach(f => {
+    test(f.description, () => {
+      const res = largestFirst(f, f.options);
+      expect(res).toMatchObject(f.result);
+      sanityCheck(res);
+    });
+  });
+
+  fixtures.customStrategyExceptions.forEach(f => {
+    test(f.description, () => {
+      expect(() => largestFirst(f, f.options)).toThrowError(f.result);
+    });
+  });
 });
@@ -0,0 +1,28 @@
+import * as fixtures from './fixtures/optimize';
+import { optimize } from '../../src/methods/optimize';
+import { randomImprove } from '../../src/methods/randomImprove';
+import { sanityCheck } from '../setup';
+
+describe('coinSelection - optimize', () => {
+  fixtures.coinSelection.forEach(f => {
+    test(f.description, () => {
+      const res = optimize(f, f.options);
+      expect(res).toMatchObject(f.result);
+      expect(res.optimization).toBeDefined();
+      sanityCheck(res);
+
+      if (res.optimization?.algorithm === 'random-improve') {
+        // winning seed reproduces the same transaction
+        const replay = randomImprove(f, { seed: res.seed });
+        expect(replay.tx.hash).toBe(res.tx.hash);
+      }
+    });
+  });
+
+  fixtures.exceptions.forEach(f => {
+    test(f.description, () => {
+      const res = () => optimize(f, f.options);
+      expect(res).toThrowError(expect.objectContaining({ code: f.result }));
+    });
+  });
+});
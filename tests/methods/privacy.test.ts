@@ -0,0 +1,27 @@
+import * as fixtures from './fixtures/privacy';
+import { getUtxoGroupKey, privacy } from '../../src/methods/privacy';
+import { largestFirst } from '../../src/methods/largestFirst';
+import { randomImprove } from '../../src/methods/randomImprove';
+import { sanityCheck } from '../setup';
+
+describe('coinSelection - privacy', () => {
+  [largestFirst, randomImprove].forEach(select => {
+    fixtures.coinSelection.forEach(f => {
+      test(`${select.name}: ${f.description}`, () => {
+        const res = privacy(f, f.options, select);
+        const groups = new Set(
+          res.inputs.map(utxo => getUtxoGroupKey(utxo, f.options.privacy)),
+        );
+        expect(groups.size).toBe(f.result.groups);
+        sanityCheck(res);
+      });
+    });
+
+    fixtures.exceptions.forEach(f => {
+      test(`${select.name}: ${f.description}`, () => {
+        const res = () => privacy(f, f.options, select);
+        expect(res).toThrowError(expect.objectContaining({ code: f.result }));
+      });
+    });
+  });
+});
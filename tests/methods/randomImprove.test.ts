@@ -1,10 +1,41 @@
 import * as fixtures from './fixtures/randomImprove';
-import { randomImprove } from '../../src/methods/randomImprove';
+import {
+  randomImprove,
+  selectionPerOutput,
+} from '../../src/methods/randomImprove';
+import { CARDANO_PARAMS } from '../../src/constants';
+import {
+  bigNumFromStr,
+  getOutputQuantity,
+  getProtocolParameters,
+  getTxBuilder,
+  getUtxoQuantity,
+} from '../../src/utils/common';
+import { getRandomGenerator } from '../../src/utils/random';
+import { Utxo } from '../../src/types/types';
 import { sanityCheck } from '../setup';
 
+// distance of the selected lovelace from the ideal target (200%) after each input added once the output is covered
+const getImproveDistances = (utxoSelected: Utxo[], target: number) => {
+  const distances: number[] = [];
+  let quantity = 0;
+  utxoSelected.forEach(utxo => {
+    quantity += Number(getUtxoQuantity([utxo], 'lovelace').to_str());
+    if (quantity >= target) distances.push(Math.abs(2 * target - quantity));
+  });
+  return distances;
+};
+
 describe('coinSelection - randomImprove', () => {
   fixtures.nonFinalCompose.forEach(f => {
-    const { utxos, outputs, changeAddress } = f;
+    const {
+      utxos,
+      outputs,
+      changeAddress,
+      certificates,
+      withdrawals,
+      accountPubKey,
+    } = f;
 
     test(f.description, () => {
       const res = randomImprove(
@@ -12,6 +43,9 @@ describe('coinSelection - randomImprove', () => {
           utxos,
           outputs,
           changeAddress,
+          certificates,
+          withdrawals,
+          accountPubKey,
         },
         f.options,
       );
@@ -20,7 +54,17 @@ describe('coinSelection - randomImprove', () => {
   });
 
   fixtures.coinSelection.forEach(f => {
-    const { utxos, outputs, changeAddress, ttl } = f;
+    const {
+      utxos,
+      outputs,
+      changeAddress,
+      certificates,
+      withdrawals,
+      votes,
+      proposals,
+      accountPubKey,
+      ttl,
+    } = f;
 
     test(f.description, () => {
       const res = randomImprove(
@@ -28,6 +72,11 @@ describe('coinSelection - randomImprove', () => {
           utxos,
           outputs,
           changeAddress,
+          certificates,
+          withdrawals,
+          votes,
+          proposals,
+          accountPubKey,
           ttl,
         },
         f.options,
@@ -38,7 +87,14 @@ describe('coinSelection - randomImprove', () => {
   });
 
   fixtures.exceptions.forEach(f => {
-    const { utxos, outputs, changeAddress } = f;
+    const {
+      utxos,
+      outputs,
+      changeAddress,
+      certificates,
+      withdrawals,
+      accountPubKey,
+    } = f;
     test(f.description, () => {
       const res = () =>
         randomImprove(
@@ -46,10 +102,75 @@ describe('coinSelection - randomImprove', () => {
             utxos,
             outputs,
             changeAddress,
+            certificates,
+            withdrawals,
+            accountPubKey,
           },
           f.options,
         );
       expect(res).toThrowError(expect.objectContaining({ code: f.result }));
     });
   });
+
+  fixtures.perOutputCoinSelection.forEach(f => {
+    test(f.description, () => {
+      const res = randomImprove(f, f.options);
+      sanityCheck(res);
+
+      const protocolParameters = getProtocolParameters(f.options);
+      const { outputSelections } = selectionPerOutput(
+        f.utxos,
+        [],
+        f.outputs,
+        getTxBuilder(protocolParameters),
+        f.changeAddress,
+        getRandomGenerator(f.options).rng,
+        { input: bigNumFromStr('0'), deposit: bigNumFromStr('0') },
+        protocolParameters,
+      );
+      outputSelections.forEach(({ output, utxoSelected }) => {
+        // inputs of each output cover its own target (100%)
+        [...output.assets.map(a => a.unit), 'lovelace'].forEach(asset => {
+          expect(
+            getUtxoQuantity(utxoSelected, asset).compare(
+              getOutputQuantity([output], asset),
+            ),
+          ).toBeGreaterThanOrEqual(0);
+        });
+        if (output.assets.length === 0) {
+          // every input added in the improve phase moves the selection closer to 200%
+          const distances = getImproveDistances(
+            utxoSelected,
+            Number(output.amount),
+          );
+          distances.slice(1).forEach((distance, i) => {
+            expect(distance).toBeLessThan(distances[i]);
+          });
+        }
+      });
+    });
+  });
+
+  fixtures.seededCoinSelection.forEach(f => {
+    test(f.description, () => {
+      const res = randomImprove(f, f.options);
+      expect(res.seed).toBe(f.options.seed);
+      sanityCheck(res);
+
+      // feeding the seed back produces the same transaction
+      const replay = randomImprove(f, { seed: res.seed });
+      expect(replay).toStrictEqual(res);
+    });
+  });
+
+  fixtures.txSizeLimitCoinSelection.forEach(f => {
+    test(f.description, () => {
+      const res = randomImprove(f, f.options);
+      expect(res.tx.size).toBeLessThanOrEqual(CARDANO_PARAMS.MAX_TX_SIZE);
+      expect(res.inputs).toContainEqual(
+        expect.objectContaining({ txHash: f.utxos[f.utxos.length - 1].txHash }),
+      );
+      sanityCheck(res);
+    });
+  });
 });
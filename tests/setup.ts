@@ -8,7 +8,7 @@ import { CoinSelectionResult } from '../src/types/types';
 import { multiAssetToArray } from '../src/utils/common';
 
 export const sanityCheck = (res: CoinSelectionResult): void => {
-  const totalAdaInputs = res.inputs
+  let totalAdaInputs = res.inputs
     .reduce(
       (acc, input) =>
         acc.checked_add(
@@ -25,14 +25,15 @@ export const sanityCheck = (res: CoinSelectionResult): void => {
     BigNum.from_str('0'),
   );
   if (res.deposit.startsWith('-')) {
-    totalAdaOutputs = totalAdaOutputs.clamped_sub(
+    // refund may exceed the outputs
+    totalAdaInputs = totalAdaInputs.checked_add(
       BigNum.from_str(res.deposit.slice(1)),
     );
   } else {
     totalAdaOutputs = totalAdaOutputs.checked_add(BigNum.from_str(res.deposit));
   }
 
-  // Check ADA value: inputs + withdrawals (rewards) = outputs + fee
+  // Check ADA value: inputs + withdrawals (rewards) + refunds = outputs + deposits + fee
   const delta = totalAdaInputs.compare(
     totalAdaOutputs.checked_add(BigNum.from_str(res.fee)),
   );
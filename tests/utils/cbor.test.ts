@@ -0,0 +1,11 @@
+import * as cbor from '../../src/utils/cbor';
+import * as fixtures from './fixtures/cbor';
+
+describe('cbor utils', () => {
+  fixtures.stripSetTags.forEach(f => {
+    test(f.description, () => {
+      const res = cbor.stripSetTags(Buffer.from(f.hex, 'hex'));
+      expect(Buffer.from(res).toString('hex')).toBe(f.result);
+    });
+  });
+});
@@ -25,24 +25,136 @@ describe('common utils', () => {
     });
   });
 
+  fixtures.getProtocolParameters.forEach(f => {
+    test(f.description, () => {
+      expect(utils.getProtocolParameters(f.options)).toStrictEqual(f.result);
+    });
+  });
+
+  fixtures.getNetwork.forEach(f => {
+    test(`getProtocolMagic/getNetworkId: ${f.description}`, () => {
+      expect(utils.getProtocolMagic(f.network)).toBe(f.protocolMagic);
+      expect(utils.getNetworkId(f.network)).toBe(f.networkId);
+    });
+  });
+
+  fixtures.validateAddressNetwork.forEach(f => {
+    test(f.description, () => {
+      const validate = () => utils.validateAddressNetwork(f.address, f.network);
+      if (!f.result) {
+        expect(validate).not.toThrow();
+      } else {
+        expect(validate).toThrowError(
+          expect.objectContaining({
+            code: f.result,
+            details: { address: f.address },
+          }),
+        );
+      }
+    });
+  });
+
+  fixtures.calculateReferenceScriptFee.forEach(f => {
+    test(`calculateReferenceScriptFee: ${f.description}`, () => {
+      expect(
+        utils
+          .calculateReferenceScriptFee(
+            f.utxos,
+            utils.getProtocolParameters(f.options),
+          )
+          .to_str(),
+      ).toBe(f.result);
+    });
+  });
+
+  fixtures.calculateRequiredDeposit.forEach(f => {
+    test(`calculateRequiredDeposit: ${f.description}`, () => {
+      expect(
+        utils.calculateRequiredDeposit(
+          f.certificates,
+          utils.getProtocolParameters(f.options),
+        ),
+      ).toBe(f.result);
+    });
+  });
+
+  fixtures.calculateRequiredDepositExceptions.forEach(f => {
+    test(`calculateRequiredDeposit: ${f.description}`, () => {
+      expect(() =>
+        utils.calculateRequiredDeposit(
+          f.certificates,
+          utils.getProtocolParameters(f.options),
+        ),
+      ).toThrowError(expect.objectContaining({ code: f.result }));
+    });
+  });
+
+  fixtures.getMinAda.forEach(f => {
+    test(`getMinAda: ${f.description}`, () => {
+      const protocolParameters = utils.getProtocolParameters(f.options);
+      const output = utils.buildTxOutput(
+        f.output,
+        f.output.address,
+        protocolParameters,
+      );
+      expect(utils.getMinAda(output, protocolParameters).to_str()).toBe(
+        f.result,
+      );
+    });
+  });
+
   fixtures.buildTxOutput.forEach(f => {
     test(f.description, () => {
-      const output = utils.buildTxOutput(f.output, f.dummyAddress);
+      const output = utils.buildTxOutput(
+        f.output,
+        f.dummyAddress,
+        utils.getProtocolParameters(f.options),
+      );
       const assets = utils.multiAssetToArray(output.amount().multiasset());
 
-      let address = output.address().to_bech32(); // by default expect shelley
-      if (CardanoWasm.ByronAddress.is_valid(f.result.address)) {
-        // expecting byron address
-        address = CardanoWasm.ByronAddress.from_bytes(
-          output.address().to_bytes(),
-        ).to_base58();
-      }
+      // by default expect shelley, bech32 of a byron address with legacy testnet magic throws
+      const address = CardanoWasm.ByronAddress.is_valid(f.result.address)
+        ? CardanoWasm.ByronAddress.from_bytes(
+            output.address().to_bytes(),
+          ).to_base58()
+        : output.address().to_bech32();
       expect(output.amount().coin().to_str()).toBe(f.result.amount);
       expect(address).toBe(f.result.address);
       expect(assets).toStrictEqual(f.result.assets);
     });
   });
 
+  fixtures.preparePoolParams.forEach(f => {
+    test(`preparePoolParams: ${f.description}`, () => {
+      expect(utils.preparePoolParams(f.poolParameters).to_hex()).toBe(f.result);
+    });
+  });
+
+  fixtures.preparePoolParamsExceptions.forEach(f => {
+    test(`preparePoolParams: ${f.description}`, () => {
+      expect(() => utils.preparePoolParams(f.poolParameters)).toThrowError(
+        expect.objectContaining({
+          code: 'INVALID_POOL_PARAMETERS',
+          details: { field: f.field },
+        }),
+      );
+    });
+  });
+
+  fixtures.getTxSize.forEach(f => {
+    test(`getTxSize: ${f.description}`, () => {
+      const protocolParameters = utils.getProtocolParameters(f.options);
+      const txBuilder = utils.getTxBuilder(protocolParameters);
+      f.utxos.forEach(utxo => {
+        const { input, address, amount } = utils.buildTxInput(utxo);
+        txBuilder.add_regular_input(address, input, amount);
+      });
+      expect(utils.getTxSize(txBuilder, protocolParameters)).toBe(f.result);
+      // the estimation doesn't touch the fee of the tx builder
+      expect(txBuilder.get_fee_if_set()).toBeUndefined();
+    });
+  });
+
   fixtures.orderInputs.forEach(f => {
     test(f.description, () => {
       const inputs = utils.orderInputs(
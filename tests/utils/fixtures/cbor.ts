@@ -0,0 +1,18 @@
+export const stripSetTags = [
+  {
+    description: 'Tagged set of inputs',
+    hex: 'd9010281825820d9d9d9d9d9d9d9d9d9d9d9d9d9d9d9d9d9d9d9d9d9d9d9d9d9d9d9d9d9d9d9d901',
+    result:
+      '81825820d9d9d9d9d9d9d9d9d9d9d9d9d9d9d9d9d9d9d9d9d9d9d9d9d9d9d9d9d9d9d9d901',
+  },
+  {
+    description: 'Tagged sets in a map and an indefinite length array',
+    hex: 'a200d9010280019fd901028101ff',
+    result: 'a20080019f8101ff',
+  },
+  {
+    description: 'Other tags and byte strings are kept as they are',
+    hex: 'd81843d90102',
+    result: 'd81843d90102',
+  },
+];
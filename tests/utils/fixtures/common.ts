@@ -1,3 +1,6 @@
+import { Certificate } from '../../../src/types/types';
+import { poolParameters } from '../../fixtures/constants';
+
 const utxo1 = {
   address: 'addr1',
   txHash: 'hash1',
@@ -134,6 +137,398 @@ export const buildTxOutput = [
       ],
     },
   },
+  {
+    description: 'Min ADA for an output follows coinsPerUtxoByte',
+    output: {
+      address:
+        'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+      amount: '0',
+      assets: [],
+      setMax: false,
+    },
+    dummyAddress:
+      'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+    options: { protocolParameters: { coinsPerUtxoByte: '8620' } },
+    asset: 'lovelace',
+    result: {
+      address:
+        'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+      amount: '1939500', // 2 x min ADA with default coinsPerUtxoByte
+      assets: [],
+    },
+  },
+];
+
+export const getProtocolParameters = [
+  {
+    description: 'Default protocol parameters',
+    options: undefined,
+    result: {
+      minFeeA: '44',
+      minFeeB: '155381',
+      poolDeposit: '500000000',
+      keyDeposit: '2000000',
+      coinsPerUtxoByte: '4310',
+      maxTxSize: 16384,
+      maxValueSize: 5000,
+      minFeeRefScriptCostPerByte: '15',
+      coinsPerUtxoWord: '34482',
+      drepDeposit: '500000000',
+      govActionDeposit: '100000000000',
+      era: 'babbage',
+    },
+  },
+  {
+    description: 'Deprecated feeParams.a is used as minFeeA',
+    options: { feeParams: { a: '0' } },
+    result: {
+      minFeeA: '0',
+      minFeeB: '155381',
+      poolDeposit: '500000000',
+      keyDeposit: '2000000',
+      coinsPerUtxoByte: '4310',
+      maxTxSize: 16384,
+      maxValueSize: 5000,
+      minFeeRefScriptCostPerByte: '15',
+      coinsPerUtxoWord: '34482',
+      drepDeposit: '500000000',
+      govActionDeposit: '100000000000',
+      era: 'babbage',
+    },
+  },
+  {
+    description: 'protocolParameters override defaults and feeParams',
+    options: {
+      feeParams: { a: '0' },
+      protocolParameters: {
+        minFeeA: '45',
+        minFeeB: '156000',
+        poolDeposit: '400000000',
+        keyDeposit: '3000000',
+        coinsPerUtxoByte: '4000',
+        maxTxSize: 20000,
+        maxValueSize: 6000,
+        minFeeRefScriptCostPerByte: '10',
+        coinsPerUtxoWord: '32000',
+        drepDeposit: '400000000',
+        govActionDeposit: '50000000000',
+        era: 'babbage' as const,
+      },
+    },
+    result: {
+      minFeeA: '45',
+      minFeeB: '156000',
+      poolDeposit: '400000000',
+      keyDeposit: '3000000',
+      coinsPerUtxoByte: '4000',
+      maxTxSize: 20000,
+      maxValueSize: 6000,
+      minFeeRefScriptCostPerByte: '10',
+      coinsPerUtxoWord: '32000',
+      drepDeposit: '400000000',
+      govActionDeposit: '50000000000',
+      era: 'babbage',
+    },
+  },
+];
+
+export const getNetwork = [
+  {
+    description: 'mainnet by default',
+    network: undefined,
+    protocolMagic: 764824073,
+    networkId: 1,
+  },
+  {
+    description: 'legacy testnet flag',
+    network: true,
+    protocolMagic: 1097911063,
+    networkId: 0,
+  },
+  {
+    description: 'preprod',
+    network: 'preprod',
+    protocolMagic: 1,
+    networkId: 0,
+  },
+  {
+    description: 'preview',
+    network: 'preview',
+    protocolMagic: 2,
+    networkId: 0,
+  },
+  {
+    description: 'custom devnet',
+    network: { protocolMagic: 42, networkId: 0 },
+    protocolMagic: 42,
+    networkId: 0,
+  },
+] as const;
+
+export const validateAddressNetwork = [
+  {
+    description: 'mainnet shelley address on mainnet',
+    address:
+      'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+    network: 'mainnet',
+    result: undefined,
+  },
+  {
+    description: 'mainnet shelley address on preprod',
+    address:
+      'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc',
+    network: 'preprod',
+    result: 'ADDRESS_NETWORK_MISMATCH',
+  },
+  {
+    description: 'testnet shelley address on preview',
+    address:
+      'addr_test1qr9jx7pnujcap2chn8zg8gag6nwu00xu6hdd7vv9jc03py0m2tfs2k368ger3n3pngluz0lympuh65rzarw5vux862dse9kvf2',
+    network: 'preview',
+    result: undefined,
+  },
+  {
+    description: 'testnet shelley address on custom devnet',
+    address:
+      'addr_test1qr9jx7pnujcap2chn8zg8gag6nwu00xu6hdd7vv9jc03py0m2tfs2k368ger3n3pngluz0lympuh65rzarw5vux862dse9kvf2',
+    network: { protocolMagic: 42, networkId: 0 },
+    result: undefined,
+  },
+  {
+    description: 'mainnet byron address on mainnet',
+    address: 'Ae2tdPwUPEZHdZfvrPZTB1iCUGDnMFfDfNN5HjzWzxWdrFKEUrXvq23Dnwd',
+    network: 'mainnet',
+    result: undefined,
+  },
+  {
+    description: 'legacy testnet byron address on testnet',
+    address:
+      '37btjrVyb4KDXBNC4haBVPCrro8AQPHwvCMp3RFhhSVWwfFmZ6wwzSK6JK1hY6wHNmtrpTf1kdbva8TCneM2YsiXT7mrzT21EacHnPpz5YyUdj64na',
+    network: 'testnet',
+    result: undefined,
+  },
+  {
+    description: 'legacy testnet byron address on preprod',
+    address:
+      '37btjrVyb4KDXBNC4haBVPCrro8AQPHwvCMp3RFhhSVWwfFmZ6wwzSK6JK1hY6wHNmtrpTf1kdbva8TCneM2YsiXT7mrzT21EacHnPpz5YyUdj64na',
+    network: 'preprod',
+    result: 'ADDRESS_NETWORK_MISMATCH',
+  },
+  {
+    description: 'malformed address',
+    address: 'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6',
+    network: 'mainnet',
+    result: 'INVALID_ADDRESS',
+  },
+] as const;
+
+const refScriptUtxo = (outputIndex: number, referenceScriptSize: number) => ({
+  address: 'addr1',
+  txHash: 'hash1',
+  outputIndex,
+  amount: [{ unit: 'lovelace', quantity: '10000000' }],
+  referenceScriptSize,
+});
+
+export const calculateReferenceScriptFee = [
+  {
+    description: 'No reference scripts',
+    utxos: [refScriptUtxo(0, 0)],
+    options: { protocolParameters: { era: 'conway' as const } },
+    result: '0',
+  },
+  {
+    description: 'Reference script within the first tier',
+    utxos: [refScriptUtxo(0, 1000)],
+    options: { protocolParameters: { era: 'conway' as const } },
+    result: '15000', // 1000 * 15
+  },
+  {
+    description: 'Reference scripts of multiple utxos over 2 tiers',
+    utxos: [refScriptUtxo(0, 20000), refScriptUtxo(1, 10000)],
+    options: { protocolParameters: { era: 'conway' as const } },
+    result: '463200', // 25600 * 15 + 4400 * 18
+  },
+  {
+    description: 'Reference script over 3 tiers',
+    utxos: [refScriptUtxo(0, 60000)],
+    options: { protocolParameters: { era: 'conway' as const } },
+    result: '1034880', // 25600 * 15 + 25600 * 18 + 8800 * 21.6
+  },
+  {
+    description: 'Fee is rounded down once for all tiers',
+    utxos: [refScriptUtxo(0, 25600), refScriptUtxo(1, 1)],
+    options: {
+      protocolParameters: {
+        minFeeRefScriptCostPerByte: '1',
+        era: 'conway' as const,
+      },
+    },
+    result: '25601', // 25600 * 1 + 1 * 1.2
+  },
+  {
+    description: 'Decimal price per byte',
+    utxos: [refScriptUtxo(0, 1001)],
+    options: {
+      protocolParameters: {
+        minFeeRefScriptCostPerByte: '15.5',
+        era: 'conway' as const,
+      },
+    },
+    result: '15515', // 1001 * 15.5
+  },
+  {
+    description: 'Fractional price per byte over 2 tiers',
+    utxos: [refScriptUtxo(0, 26601)],
+    options: {
+      protocolParameters: {
+        minFeeRefScriptCostPerByte: '31/2',
+        era: 'conway' as const,
+      },
+    },
+    result: '415418', // 25600 * 15.5 + 1001 * 18.6
+  },
+  {
+    description: 'Reference script fee with default options',
+    utxos: [refScriptUtxo(0, 1000)],
+    options: {},
+    result: '15000', // 1000 * 15
+  },
+];
+
+const shelleyAddress =
+  'addr1qya0nkzrf04gmcpu66vdt7sudwptnyg5df6475y7jhtt2wc44vzmgrfy6wwf69xlaszdslksw8evveyykw4c82eavq7sx29tlc';
+
+export const calculateRequiredDeposit = [
+  {
+    description: 'Deposits from protocol parameters',
+    certificates: [
+      { type: 0 },
+      { type: 16 },
+      { type: 3, pool_parameters: poolParameters },
+    ] as Certificate[],
+    options: { protocolParameters: { keyDeposit: '3000000' } },
+    result: 1003000000, // 3 ADA + 500 ADA DRep + 500 ADA pool
+  },
+  {
+    description: 'Refund of a key deposit paid under the previous key deposit',
+    certificates: [{ type: 1, deposit: '2000000' }] as Certificate[],
+    options: {
+      protocolParameters: { keyDeposit: '3000000', era: 'conway' as const },
+    },
+    result: -2000000,
+  },
+  {
+    description: 'Explicit deposits of a registration and its deregistration',
+    certificates: [
+      { type: 11, pool: 'abc', deposit: '4000000' },
+      { type: 1, deposit: '4000000' },
+      { type: 17, drepKeyHash: 'abc', deposit: '100000000' },
+    ] as Certificate[],
+    options: { protocolParameters: { era: 'conway' as const } },
+    result: -100000000,
+  },
+  {
+    description: 'Delegation and DRep update without deposit',
+    certificates: [
+      { type: 2, pool: 'abc' },
+      { type: 9, drep: { type: 2 } },
+      { type: 18 },
+    ] as Certificate[],
+    options: undefined,
+    result: 0,
+  },
+  {
+    description: 'Pool update (re-registration) without deposit',
+    certificates: [
+      { type: 3, pool_parameters: poolParameters, update: true },
+      { type: 3, pool_parameters: poolParameters },
+    ] as Certificate[],
+    options: undefined,
+    result: 500000000, // only the new pool registration
+  },
+  {
+    description:
+      'Legacy stake registration with the deposit equal to keyDeposit',
+    certificates: [{ type: 0, deposit: '2000000' }] as Certificate[],
+    options: { protocolParameters: { era: 'babbage' as const } },
+    result: 2000000,
+  },
+];
+
+export const calculateRequiredDepositExceptions = [
+  {
+    description: 'Deposit is not a lovelace amount',
+    certificates: [{ type: 0, deposit: '-2000000' }] as Certificate[],
+    options: undefined,
+    result: 'INVALID_CERTIFICATE_DEPOSIT',
+  },
+  {
+    description: 'Deposit of a certificate without deposit',
+    certificates: [{ type: 2, pool: 'abc', deposit: '0' }] as Certificate[],
+    options: undefined,
+    result: 'INVALID_CERTIFICATE_DEPOSIT',
+  },
+  {
+    description: 'Legacy stake registration deposit differs from keyDeposit',
+    certificates: [{ type: 0, deposit: '3000000' }] as Certificate[],
+    options: { protocolParameters: { era: 'babbage' as const } },
+    result: 'INVALID_CERTIFICATE_DEPOSIT',
+  },
+  {
+    description: 'Legacy stake deregistration refund differs from keyDeposit',
+    certificates: [{ type: 1, deposit: '3000000' }] as Certificate[],
+    options: { protocolParameters: { era: 'babbage' as const } },
+    result: 'INVALID_CERTIFICATE_DEPOSIT',
+  },
+  {
+    description: 'Refund differs from the deposit paid in the same tx',
+    certificates: [
+      { type: 0 },
+      { type: 1, deposit: '3000000' },
+    ] as Certificate[],
+    options: { protocolParameters: { era: 'conway' as const } },
+    result: 'DEPOSIT_REFUND_MISMATCH',
+  },
+  {
+    description: 'Refund of a DRep deposit differs from the deposit paid',
+    certificates: [
+      { type: 16, drepKeyHash: 'abc', deposit: '500000000' },
+      { type: 17, drepKeyHash: 'abc', deposit: '400000000' },
+    ] as Certificate[],
+    options: undefined,
+    result: 'DEPOSIT_REFUND_MISMATCH',
+  },
+];
+
+export const getMinAda = [
+  {
+    description: 'ADA only output',
+    output: { address: shelleyAddress, amount: '1000000', assets: [] },
+    options: undefined,
+    result: '969750', // 4310 * (160 + 65 bytes of the output)
+  },
+  {
+    description: 'Alonzo era, ADA only output',
+    output: { address: shelleyAddress, amount: '1000000', assets: [] },
+    options: { protocolParameters: { era: 'alonzo' as const } },
+    result: '999978', // 34482 * (27 + 2)
+  },
+  {
+    description: 'Alonzo era, output with a token',
+    output: {
+      address: shelleyAddress,
+      amount: '1000000',
+      assets: [
+        {
+          unit: '9a9693a9a37912a5097918f97918d15240c92ab729a0b7c4aa144d7753554e444145',
+          quantity: '5675656536',
+        },
+      ],
+    },
+    options: { protocolParameters: { era: 'alonzo' as const } },
+    result: '1344798', // 34482 * (27 + 6 + ceil((12 + 6 + 28) / 8))
+  },
 ];
 
 export const orderInputs = [
@@ -207,3 +602,80 @@ export const orderInputs = [
     ],
   },
 ];
+
+export const preparePoolParams = [
+  {
+    description: 'Pool with all types of relays and metadata',
+    poolParameters,
+    // IPv6 is serialized as 4 little-endian 32-bit words
+    result:
+      '89581cfb52d3055a3a3a3238ce219a3fc13fe4d8797d5062e8dd4670c7d29b58208dd154228946bd12967c12bedb1cb6038b78f8b84a1760b1a788fa72a4af3db01a1dcd65001a1443fd00d81e82011864581de1c968b71c91c84fb993108b48938186b7be316f62e5b37d48da319048d9010281581cfb52d3055a3a3a3238ce219a3fc13fe4d8797d5062e8dd4670c7d29b838400190bb944c0a8000150b80d01200000000000000000010000008301190bb97172656c61792e6578616d706c652e636f6d82026b6578616d706c652e636f6d82781d68747470733a2f2f6578616d706c652e636f6d2f706f6f6c2e6a736f6e58208dd154228946bd12967c12bedb1cb6038b78f8b84a1760b1a788fa72a4af3db0',
+  },
+  {
+    description: 'Pool without relays and metadata',
+    poolParameters: { ...poolParameters, relays: [], metadata: undefined },
+    result:
+      '89581cfb52d3055a3a3a3238ce219a3fc13fe4d8797d5062e8dd4670c7d29b58208dd154228946bd12967c12bedb1cb6038b78f8b84a1760b1a788fa72a4af3db01a1dcd65001a1443fd00d81e82011864581de1c968b71c91c84fb993108b48938186b7be316f62e5b37d48da319048d9010281581cfb52d3055a3a3a3238ce219a3fc13fe4d8797d5062e8dd4670c7d29b80f6',
+  },
+];
+
+export const preparePoolParamsExceptions = [
+  {
+    description: 'Invalid VRF key hash',
+    poolParameters: { ...poolParameters, vrfKeyHash: 'abcd' },
+    field: 'vrfKeyHash',
+  },
+  {
+    description: 'Margin over 100%',
+    poolParameters: {
+      ...poolParameters,
+      margin: { numerator: '101', denominator: '100' },
+    },
+    field: 'margin',
+  },
+  {
+    description: 'Reward account is not a stake address',
+    poolParameters: {
+      ...poolParameters,
+      rewardAccount:
+        'addr1q860vxljhadqxnrrsr2j6yxnwpdkyquq74lmghx502aj0r28d2kd47hsre5v9urjyu8s0ryk38dxzw0t5jesncw4v90sp0878u',
+    },
+    field: 'rewardAccount',
+  },
+  {
+    description: 'Invalid IPv6 address of a relay',
+    poolParameters: {
+      ...poolParameters,
+      relays: [{ type: 0 as const, ipv6Address: '2001:db8::1::2' }],
+    },
+    field: 'relays',
+  },
+  {
+    description: 'Relay without an address',
+    poolParameters: { ...poolParameters, relays: [{ type: 0 as const }] },
+    field: 'relays',
+  },
+];
+
+const sizeUtxo = (outputIndex: number) => ({
+  address: shelleyAddress,
+  txHash: '3c388acb799a37a4f1cc99bec7626637b0b80626b9ef7c7a687282cab701178d',
+  outputIndex,
+  amount: [{ unit: 'lovelace', quantity: '10000000' }],
+});
+
+export const getTxSize = [
+  {
+    description: 'Size of the tx with 2 inputs',
+    utxos: [sizeUtxo(0), sizeUtxo(1)],
+    options: undefined,
+    // min fee 164181 = 44 * 200 + 155381
+    result: 200,
+  },
+  {
+    description: 'Size is unknown if the fee does not depend on it',
+    utxos: [sizeUtxo(0), sizeUtxo(1)],
+    options: { protocolParameters: { minFeeA: '0' } },
+    result: undefined,
+  },
+];
@@ -0,0 +1,296 @@
+const mainnetParams = {
+  minFeeA: '44',
+  minFeeB: '155381',
+  poolDeposit: '500000000',
+  keyDeposit: '2000000',
+  coinsPerUtxoByte: '4310',
+  maxTxSize: 16384,
+  maxValueSize: 5000,
+  minFeeRefScriptCostPerByte: '15',
+  coinsPerUtxoWord: '34480',
+  drepDeposit: '500000000',
+  govActionDeposit: '100000000000',
+  era: 'conway',
+};
+
+// no reference script fee before Conway
+const babbageParams = {
+  ...mainnetParams,
+  minFeeRefScriptCostPerByte: '0',
+  drepDeposit: '0',
+  govActionDeposit: '0',
+  era: 'babbage',
+};
+
+export const cardanoCli = [
+  {
+    description: 'Conway era cardano-cli output',
+    json: {
+      maxTxSize: 16384,
+      maxValueSize: 5000,
+      minFeeRefScriptCostPerByte: 15,
+      dRepDeposit: 500000000,
+      govActionDeposit: 100000000000,
+      protocolVersion: { major: 9, minor: 0 },
+      stakeAddressDeposit: 2000000,
+      stakePoolDeposit: 500000000,
+      txFeeFixed: 155381,
+      txFeePerByte: 44,
+      utxoCostPerByte: 4310,
+    },
+    result: mainnetParams,
+  },
+  {
+    description:
+      'Conway era cardano-cli output, decimal reference script price',
+    json: {
+      maxTxSize: 16384,
+      maxValueSize: 5000,
+      minFeeRefScriptCostPerByte: 15.5,
+      dRepDeposit: 500000000,
+      govActionDeposit: 100000000000,
+      protocolVersion: { major: 9, minor: 0 },
+      stakeAddressDeposit: 2000000,
+      stakePoolDeposit: 500000000,
+      txFeeFixed: 155381,
+      txFeePerByte: 44,
+      utxoCostPerByte: 4310,
+    },
+    result: { ...mainnetParams, minFeeRefScriptCostPerByte: '15.5' },
+  },
+  {
+    description: 'Babbage era cardano-cli output',
+    json: {
+      collateralPercentage: 150,
+      decentralization: null,
+      executionUnitPrices: { priceMemory: 0.0577, priceSteps: 0.0000721 },
+      extraPraosEntropy: null,
+      maxBlockBodySize: 90112,
+      maxBlockExecutionUnits: { memory: 62000000, steps: 20000000000 },
+      maxBlockHeaderSize: 1100,
+      maxCollateralInputs: 3,
+      maxTxExecutionUnits: { memory: 14000000, steps: 10000000000 },
+      maxTxSize: 16384,
+      maxValueSize: 5000,
+      minPoolCost: 170000000,
+      minUTxOValue: null,
+      monetaryExpansion: 0.003,
+      poolPledgeInfluence: 0.3,
+      poolRetireMaxEpoch: 18,
+      protocolVersion: { major: 8, minor: 0 },
+      stakeAddressDeposit: 2000000,
+      stakePoolDeposit: 500000000,
+      stakePoolTargetNum: 500,
+      treasuryCut: 0.2,
+      txFeeFixed: 155381,
+      txFeePerByte: 44,
+      utxoCostPerByte: 4310,
+    },
+    result: babbageParams,
+  },
+  {
+    description: 'Alonzo era cardano-cli output, utxoCostPerWord',
+    json: {
+      maxTxSize: 16384,
+      maxValueSize: 5000,
+      stakeAddressDeposit: 2000000,
+      stakePoolDeposit: 500000000,
+      txFeeFixed: 155381,
+      txFeePerByte: 44,
+      utxoCostPerWord: 34482,
+    },
+    result: { ...babbageParams, coinsPerUtxoWord: '34482', era: 'alonzo' },
+  },
+];
+
+export const blockfrost = [
+  {
+    description: 'Blockfrost /epochs/latest/parameters response',
+    json: {
+      epoch: 450,
+      min_fee_a: 44,
+      min_fee_b: 155381,
+      max_block_size: 90112,
+      max_tx_size: 16384,
+      max_block_header_size: 1100,
+      key_deposit: '2000000',
+      pool_deposit: '500000000',
+      e_max: 18,
+      n_opt: 500,
+      a0: 0.3,
+      rho: 0.003,
+      tau: 0.2,
+      decentralisation_param: 0,
+      extra_entropy: null,
+      protocol_major_ver: 8,
+      protocol_minor_ver: 0,
+      min_utxo: '4310',
+      min_pool_cost: '170000000',
+      nonce: '1a3be38bcbb7911969283716ad7aa550250226b76a61fc51cc9a9a35d9276d81',
+      price_mem: 0.0577,
+      price_step: 0.0000721,
+      max_tx_ex_mem: '14000000',
+      max_tx_ex_steps: '10000000000',
+      max_block_ex_mem: '62000000',
+      max_block_ex_steps: '20000000000',
+      max_val_size: '5000',
+      collateral_percent: 150,
+      max_collateral_inputs: 3,
+      coins_per_utxo_size: '4310',
+      coins_per_utxo_word: '4310',
+    },
+    result: babbageParams,
+  },
+];
+
+export const koios = [
+  {
+    description: 'Koios epoch_params response with multiple epochs',
+    json: [
+      {
+        epoch_no: 449,
+        min_fee_a: 44,
+        min_fee_b: 155381,
+        max_tx_size: 16384,
+        key_deposit: '2000000',
+        pool_deposit: '500000000',
+        max_val_size: 5000,
+        coins_per_utxo_size: '4310',
+      },
+      {
+        epoch_no: 450,
+        min_fee_a: 45,
+        min_fee_b: 155381,
+        max_tx_size: 16384,
+        key_deposit: '2000000',
+        pool_deposit: '500000000',
+        max_val_size: 5000,
+        coins_per_utxo_size: '4310',
+        min_fee_ref_script_cost_per_byte: 15,
+        drep_deposit: '500000000',
+        gov_action_deposit: '100000000000',
+      },
+    ],
+    result: { ...mainnetParams, minFeeA: '45' },
+  },
+  {
+    description:
+      'Koios epoch_params response, reference script price as a decimal string',
+    json: [
+      {
+        epoch_no: 450,
+        min_fee_a: 44,
+        min_fee_b: 155381,
+        max_tx_size: 16384,
+        key_deposit: '2000000',
+        pool_deposit: '500000000',
+        max_val_size: 5000,
+        coins_per_utxo_size: '4310',
+        min_fee_ref_script_cost_per_byte: '15.0',
+        drep_deposit: '500000000',
+        gov_action_deposit: '100000000000',
+      },
+    ],
+    result: mainnetParams,
+  },
+  {
+    description:
+      'Koios epoch_params response, reference script price as a fraction',
+    json: {
+      epoch_no: 450,
+      min_fee_a: 44,
+      min_fee_b: 155381,
+      max_tx_size: 16384,
+      key_deposit: '2000000',
+      pool_deposit: '500000000',
+      max_val_size: 5000,
+      coins_per_utxo_size: '4310',
+      min_fee_ref_script_cost_per_byte: '31/2',
+      drep_deposit: '500000000',
+      gov_action_deposit: '100000000000',
+    },
+    result: { ...mainnetParams, minFeeRefScriptCostPerByte: '31/2' },
+  },
+];
+
+export const exceptions = [
+  {
+    description: 'Missing field',
+    parser: 'cardanoCli' as const,
+    json: {
+      maxTxSize: 16384,
+      maxValueSize: 5000,
+      stakeAddressDeposit: 2000000,
+      stakePoolDeposit: 500000000,
+      txFeePerByte: 44,
+      utxoCostPerByte: 4310,
+    },
+    result: 'txFeeFixed',
+  },
+  {
+    description: 'Negative fee',
+    parser: 'blockfrost' as const,
+    json: {
+      min_fee_a: -44,
+      min_fee_b: 155381,
+      max_tx_size: 16384,
+      key_deposit: '2000000',
+      pool_deposit: '500000000',
+      max_val_size: '5000',
+      coins_per_utxo_size: '4310',
+    },
+    result: 'min_fee_a',
+  },
+  {
+    description: 'Deposit is not a number',
+    parser: 'koios' as const,
+    json: [
+      {
+        epoch_no: 450,
+        min_fee_a: 44,
+        min_fee_b: 155381,
+        max_tx_size: 16384,
+        key_deposit: '2 ADA',
+        pool_deposit: '500000000',
+        max_val_size: 5000,
+        coins_per_utxo_size: '4310',
+      },
+    ],
+    result: 'key_deposit',
+  },
+  {
+    description: 'Missing coins per utxo size',
+    parser: 'blockfrost' as const,
+    json: {
+      min_fee_a: 44,
+      min_fee_b: 155381,
+      max_tx_size: 16384,
+      key_deposit: '2000000',
+      pool_deposit: '500000000',
+      max_val_size: '5000',
+      coins_per_utxo_size: null,
+    },
+    result: 'coins_per_utxo_size',
+  },
+  {
+    description: 'Reference script price with zero denominator',
+    parser: 'blockfrost' as const,
+    json: {
+      min_fee_a: 44,
+      min_fee_b: 155381,
+      max_tx_size: 16384,
+      key_deposit: '2000000',
+      pool_deposit: '500000000',
+      max_val_size: '5000',
+      coins_per_utxo_size: '4310',
+      min_fee_ref_script_cost_per_byte: '15/0',
+    },
+    result: 'min_fee_ref_script_cost_per_byte',
+  },
+  {
+    description: 'Empty Koios response',
+    parser: 'koios' as const,
+    json: [],
+    result: undefined,
+  },
+];
@@ -0,0 +1,39 @@
+import * as utils from '../../src/utils/protocolParameters';
+import * as fixtures from './fixtures/protocolParameters';
+
+const parsers = {
+  cardanoCli: utils.parseCardanoCliProtocolParameters,
+  blockfrost: utils.parseBlockfrostProtocolParameters,
+  koios: utils.parseKoiosProtocolParameters,
+};
+
+describe('protocol parameters', () => {
+  fixtures.cardanoCli.forEach(f => {
+    test(f.description, () => {
+      expect(parsers.cardanoCli(f.json)).toStrictEqual(f.result);
+    });
+  });
+
+  fixtures.blockfrost.forEach(f => {
+    test(f.description, () => {
+      expect(parsers.blockfrost(f.json)).toStrictEqual(f.result);
+    });
+  });
+
+  fixtures.koios.forEach(f => {
+    test(f.description, () => {
+      expect(parsers.koios(f.json)).toStrictEqual(f.result);
+    });
+  });
+
+  fixtures.exceptions.forEach(f => {
+    test(f.description, () => {
+      expect(() => parsers[f.parser](f.json)).toThrowError(
+        expect.objectContaining({
+          code: 'INVALID_PROTOCOL_PARAMETERS',
+          details: { field: f.result },
+        }),
+      );
+    });
+  });
+});
@@ -1,3 +1,6 @@
+import { Certificate } from '../../../../src/types/types';
+import { poolParameters } from '../../../fixtures/constants';
+
 export const transformToTrezorOutputs = [
   {
     description: 'Transform outputs to trezor-connect compatible output',
@@ -87,3 +90,239 @@ export const transformToTrezorOutputs = [
     ],
   },
 ];
+
+const stakingPath = "m/1852'/1815'/0'/2/0";
+
+export const transformToTrezorCertificates = [
+  {
+    description:
+      'Transform staking certificates to trezor-connect certificates',
+    certificates: [
+      { type: 0 },
+      {
+        type: 2,
+        pool: '0f292fcaa02b8b2f9b3c8f9fd8e0bb21abedb692a6d5058df3ef2735',
+      },
+      { type: 1 },
+    ] as Certificate[],
+    stakingPath,
+    options: undefined,
+    result: [
+      { type: 0, path: stakingPath },
+      {
+        type: 2,
+        path: stakingPath,
+        pool: '0f292fcaa02b8b2f9b3c8f9fd8e0bb21abedb692a6d5058df3ef2735',
+      },
+      { type: 1, path: stakingPath },
+    ],
+  },
+  {
+    description: 'Transform certificates of a key hash and a script hash',
+    certificates: [
+      {
+        type: 0,
+        stakingScriptHash:
+          '6b6c3fd73732187810b1e68e325e4092587a0d052f1d3387ae9250ed',
+      },
+      {
+        type: 2,
+        stakingKeyHash:
+          'fb52d305d2a4d2a7d3bb1d8b1e4f1cf3cae0b2c47b49e7e0f1d1c3b2',
+        pool: '0f292fcaa02b8b2f9b3c8f9fd8e0bb21abedb692a6d5058df3ef2735',
+      },
+    ] as Certificate[],
+    stakingPath,
+    options: undefined,
+    result: [
+      {
+        type: 0,
+        scriptHash: '6b6c3fd73732187810b1e68e325e4092587a0d052f1d3387ae9250ed',
+      },
+      {
+        type: 2,
+        keyHash: 'fb52d305d2a4d2a7d3bb1d8b1e4f1cf3cae0b2c47b49e7e0f1d1c3b2',
+        pool: '0f292fcaa02b8b2f9b3c8f9fd8e0bb21abedb692a6d5058df3ef2735',
+      },
+    ],
+  },
+  {
+    description: 'Transform certificates of another stake key of the account',
+    certificates: [
+      { type: 0, stakeKeyIndex: 1 },
+      {
+        type: 2,
+        stakeKeyIndex: 1,
+        pool: '0f292fcaa02b8b2f9b3c8f9fd8e0bb21abedb692a6d5058df3ef2735',
+      },
+    ] as Certificate[],
+    stakingPath,
+    options: undefined,
+    result: [
+      { type: 0, path: "m/1852'/1815'/0'/2/1" },
+      {
+        type: 2,
+        path: "m/1852'/1815'/0'/2/1",
+        pool: '0f292fcaa02b8b2f9b3c8f9fd8e0bb21abedb692a6d5058df3ef2735',
+      },
+    ],
+  },
+  {
+    description: 'Transform stake pool registration certificate',
+    certificates: [
+      { type: 3, pool_parameters: poolParameters },
+    ] as Certificate[],
+    stakingPath,
+    options: undefined,
+    result: [
+      {
+        type: 3,
+        poolParameters: {
+          poolId: poolParameters.operator,
+          vrfKeyHash: poolParameters.vrfKeyHash,
+          pledge: '500000000',
+          cost: '340000000',
+          margin: { numerator: '1', denominator: '100' },
+          rewardAccount: poolParameters.rewardAccount,
+          owners: [
+            {
+              stakingKeyHash:
+                'fb52d3055a3a3a3238ce219a3fc13fe4d8797d5062e8dd4670c7d29b',
+            },
+          ],
+          relays: poolParameters.relays,
+          metadata: poolParameters.metadata,
+        },
+      },
+    ],
+  },
+  {
+    description:
+      'Transform stake pool registration certificate, the account is a pool owner',
+    certificates: [
+      {
+        type: 3,
+        pool_parameters: {
+          ...poolParameters,
+          owners: [
+            '0f292fcaa02b8b2f9b3c8f9fd8e0bb21abedb692a6d5058df3ef2735',
+            ...poolParameters.owners,
+          ],
+        },
+      },
+    ] as Certificate[],
+    stakingPath,
+    options: undefined,
+    accountPubKey:
+      'ec8fdf616242f430855ad7477acda53395eb30c295f5a7ef038712578877375b5a2f00353c9c5cc88c7ff18e71dc08724d90fc238213b789c0b02438e336be07',
+    result: [
+      {
+        type: 3,
+        poolParameters: {
+          poolId: poolParameters.operator,
+          vrfKeyHash: poolParameters.vrfKeyHash,
+          pledge: '500000000',
+          cost: '340000000',
+          margin: { numerator: '1', denominator: '100' },
+          rewardAccount: poolParameters.rewardAccount,
+          owners: [
+            {
+              stakingKeyHash:
+                '0f292fcaa02b8b2f9b3c8f9fd8e0bb21abedb692a6d5058df3ef2735',
+            },
+            { stakingKeyPath: stakingPath },
+          ],
+          relays: poolParameters.relays,
+          metadata: poolParameters.metadata,
+        },
+      },
+    ],
+  },
+  {
+    description:
+      'Conway stake registration and deregistration state the deposit',
+    certificates: [
+      { type: 0 },
+      { type: 1, stakeKeyIndex: 1, deposit: '3000000' },
+    ] as Certificate[],
+    stakingPath,
+    options: { protocolParameters: { era: 'conway' as const } },
+    result: [
+      { type: 7, path: stakingPath, deposit: '2000000' },
+      { type: 8, path: "m/1852'/1815'/0'/2/1", deposit: '3000000' },
+    ],
+  },
+  {
+    description: 'Transform vote delegation certificates',
+    certificates: [
+      {
+        type: 9,
+        drep: {
+          type: 0,
+          keyHash: '0f292fcaa02b8b2f9b3c8f9fd8e0bb21abedb692a6d5058df3ef2735',
+        },
+      },
+      {
+        type: 9,
+        stakingScriptHash:
+          '6b6c3fd73732187810b1e68e325e4092587a0d052f1d3387ae9250ed',
+        drep: {
+          type: 1,
+          scriptHash:
+            '6b6c3fd73732187810b1e68e325e4092587a0d052f1d3387ae9250ed',
+        },
+      },
+      { type: 9, drep: { type: 2 } },
+      { type: 9, drep: { type: 3 } },
+    ] as Certificate[],
+    stakingPath,
+    options: { protocolParameters: { era: 'conway' as const } },
+    result: [
+      {
+        type: 9,
+        path: stakingPath,
+        dRep: {
+          type: 0,
+          keyHash: '0f292fcaa02b8b2f9b3c8f9fd8e0bb21abedb692a6d5058df3ef2735',
+        },
+      },
+      {
+        type: 9,
+        scriptHash: '6b6c3fd73732187810b1e68e325e4092587a0d052f1d3387ae9250ed',
+        dRep: {
+          type: 1,
+          scriptHash:
+            '6b6c3fd73732187810b1e68e325e4092587a0d052f1d3387ae9250ed',
+        },
+      },
+      { type: 9, path: stakingPath, dRep: { type: 2 } },
+      { type: 9, path: stakingPath, dRep: { type: 3 } },
+    ],
+  },
+];
+
+export const transformToTrezorCertificatesExceptions = [
+  {
+    description: 'Stake pool retirement is not supported by Trezor',
+    certificates: [
+      {
+        type: 4,
+        pool: 'fb52d3055a3a3a3238ce219a3fc13fe4d8797d5062e8dd4670c7d29b',
+        epoch: 500,
+      },
+    ] as Certificate[],
+    stakingPath,
+    result: 'UNSUPPORTED_CERTIFICATE_TYPE',
+  },
+  {
+    description: 'DRep registration is not supported by Trezor',
+    certificates: [
+      {
+        type: 16,
+        drepKeyHash: '0f292fcaa02b8b2f9b3c8f9fd8e0bb21abedb692a6d5058df3ef2735',
+      },
+    ] as Certificate[],
+    stakingPath,
+    result: 'UNSUPPORTED_CERTIFICATE_TYPE',
+  },
+];
@@ -12,12 +12,12 @@ describe('trezor sign utils', () => {
         utils.signTransaction(f.hex, f.witnesses, { testnet: f.testnet }),
       ).toBe(f.signedTx);
 
-      const tx = CardanoWasm.Transaction.from_bytes(
+      const tx = CardanoWasm.FixedTransaction.from_bytes(
         Buffer.from(signedTx, 'hex'),
       );
-      const txhash = Buffer.from(
-        CardanoWasm.hash_transaction(tx.body()).to_bytes(),
-      ).toString('hex');
+      const txhash = Buffer.from(tx.transaction_hash().to_bytes()).toString(
+        'hex',
+      );
 
       // just sanity check, signing shouldn't change the hash
       expect(txhash).toBe(f.txHash);
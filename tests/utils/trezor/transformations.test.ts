@@ -13,4 +13,25 @@ describe('trezor transformation utils', () => {
       ).toMatchObject(f.result);
     });
   });
+
+  fixtures.transformToTrezorCertificates.forEach(f => {
+    test(f.description, () => {
+      expect(
+        utils.transformToTrezorCertificates(
+          f.certificates,
+          f.stakingPath,
+          f.options,
+          f.accountPubKey,
+        ),
+      ).toStrictEqual(f.result);
+    });
+  });
+
+  fixtures.transformToTrezorCertificatesExceptions.forEach(f => {
+    test(f.description, () => {
+      expect(() =>
+        utils.transformToTrezorCertificates(f.certificates, f.stakingPath),
+      ).toThrowError(expect.objectContaining({ code: f.result }));
+    });
+  });
 });